@@ -30,5 +30,15 @@ export default tseslint.config(
       semi: 'warn',
     },
   },
+  {
+    // The core and the CLI run outside of VS Code
+    files: ['src/core/**/*.ts', 'src/cli.ts'],
+    rules: {
+      'no-restricted-imports': [
+        'error',
+        { paths: [{ name: 'vscode', message: 'Read settings through ConfigProvider instead.' }] },
+      ],
+    },
+  },
   eslintConfigPrettier
 );
@@ -0,0 +1,734 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { BalanceCache } from './balanceCache';
+import { toApiError } from './core/apiErrors';
+import { BinanceApiClient, ClientSnapshot, TotalEstimatedBalance } from './core/binanceApi';
+import { Credentials } from './core/config';
+import { Endpoints, sameEndpoints } from './core/endpoints';
+import { TickerUpdate } from './core/priceStream';
+import { RequestScheduler } from './core/requestScheduler';
+import { CostBasis } from './costBasis';
+import { CredentialStore, DEFAULT_PROFILE_ID } from './credentials';
+import { ConvertedAmount, CurrencyConverter } from './currency';
+import { checkApiKey, KeyCheckResult } from './keyCheck';
+import { getEndpoints, workspaceConfig } from './settings';
+import { WindowCoordinator } from './windowCoordinator';
+
+/**
+ * A named Binance account. Credentials live in SecretStorage, keyed by `id`.
+ */
+export interface Profile {
+    id: string;
+    name: string;
+}
+
+/**
+ * Balance of one profile, as shown in the per-profile breakdown.
+ */
+export interface ProfileBalance {
+    profile: Profile;
+    balance: TotalEstimatedBalance;
+}
+
+/**
+ * A balance that was computed some time ago, e.g. in an earlier session.
+ */
+export interface SavedBalance {
+    balance: TotalEstimatedBalance;
+    /** When the oldest of the combined balances was computed (ms since epoch) */
+    updatedAt: number;
+}
+
+/**
+ * A balance computed for the current profile selection.
+ */
+export interface BalanceUpdate {
+    /** Active profile id, or `ALL_PROFILES` */
+    profileId: string;
+    balance: TotalEstimatedBalance;
+    /** True for background updates driven by the streams */
+    silent: boolean;
+}
+
+/**
+ * What the leader window publishes to the other windows: the state of its clients.
+ */
+export interface SharedBalances {
+    /** Servers the snapshots come from; other environments are not mirrored */
+    endpoints: Endpoints;
+    /** Snapshot per profile id, for the leader's active profiles */
+    clients: Record<string, ClientSnapshot>;
+    /** Cost basis per account, then per `<wallet>:<asset>`, see `PnlTracker` */
+    costBases: Record<string, Record<string, CostBasis>>;
+}
+
+/** Pseudo profile id selecting every profile at once */
+export const ALL_PROFILES = '*';
+
+/** How often watched open orders are reloaded; margin orders are never streamed */
+const ORDER_REFRESH_INTERVAL = 30000;
+
+/** Topic under which followers ask the leader for open orders */
+const ORDERS_TOPIC = 'orders';
+
+const PROFILES_KEY = 'binanceBalance.profiles';
+const ACTIVE_PROFILE_KEY = 'binanceBalance.activeProfile';
+
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: 'Default' };
+
+/**
+ * Add up several balances, e.g. the profiles shown in "All accounts" mode.
+ */
+export function combineBalances(balances: TotalEstimatedBalance[]): TotalEstimatedBalance {
+    const combined: TotalEstimatedBalance = {
+        totalUSDT: 0,
+        spotUSDT: 0,
+        marginUSDT: 0,
+        isolatedMarginUSDT: 0,
+        futuresUSDT: 0,
+        futuresUnrealizedPnlUSDT: 0,
+        coinFuturesUSDT: 0,
+        coinFuturesUnrealizedPnlUSDT: 0,
+        includedWallets: balances[0]?.includedWallets ?? [],
+        unvaluedAssets: [],
+        unavailableWallets: [],
+    };
+
+    for (const balance of balances) {
+        combined.totalUSDT += balance.totalUSDT;
+        combined.spotUSDT += balance.spotUSDT;
+        combined.marginUSDT += balance.marginUSDT;
+        combined.isolatedMarginUSDT += balance.isolatedMarginUSDT;
+        combined.futuresUSDT += balance.futuresUSDT;
+        combined.futuresUnrealizedPnlUSDT += balance.futuresUnrealizedPnlUSDT;
+        combined.coinFuturesUSDT += balance.coinFuturesUSDT;
+        combined.coinFuturesUnrealizedPnlUSDT += balance.coinFuturesUnrealizedPnlUSDT;
+        combined.unvaluedAssets.push(...balance.unvaluedAssets);
+        combined.unavailableWallets.push(...balance.unavailableWallets);
+    }
+
+    return combined;
+}
+
+/**
+ * Owns the profile list, the active selection and one `BinanceApiClient` per active
+ * profile (each with its own credentials, caches and streams).
+ *
+ * Exposes the same balance API as a single client so the status bar can show either
+ * one profile or the combined total of all profiles.
+ *
+ * Only the leader window (see `WindowCoordinator`) polls and streams. It publishes its
+ * clients' snapshots, including open orders and cost bases, and the other windows mirror
+ * them into clients without streams. A profile the leader does not show is fetched by
+ * the window itself.
+ */
+export class AccountManager implements vscode.Disposable {
+    private clients: Map<string, BinanceApiClient> = new Map();
+    private trackedSymbols: Map<string, string[]> = new Map();
+    private endpoints: Endpoints = getEndpoints();
+    private readonly scheduler = new RequestScheduler();
+    private readonly balanceCache: BalanceCache;
+    private readonly currencyConverter = new CurrencyConverter((asset) =>
+        this.getPrimaryClient().resolvePrice(asset)
+    );
+    private onBalanceUpdateCallback?: (balance: TotalEstimatedBalance) => void;
+    private onCredentialsChangeCallback?: () => void;
+    private readonly profileEmitter = new vscode.EventEmitter<void>();
+    private readonly balanceEmitter = new vscode.EventEmitter<BalanceUpdate>();
+    private readonly tickerEmitter = new vscode.EventEmitter<TickerUpdate>();
+    private readonly ordersEmitter = new vscode.EventEmitter<void>();
+    private orderWatchers = 0;
+    private orderTimer?: NodeJS.Timeout;
+    private orderPolling = false;
+    private lastFullOrderRefresh = 0;
+    private orderError: string | undefined;
+    private sharedBalances: SharedBalances | undefined;
+    private costBases: Record<string, Record<string, CostBasis>> = {};
+
+    /**
+     * Fires for every balance of the current selection, from both full refreshes and
+     * silent stream updates. Any number of features (history, alerts, views) can listen.
+     */
+    readonly onDidUpdateBalance = this.balanceEmitter.event;
+
+    /**
+     * Fires when the active profile or the profile list changes.
+     */
+    readonly onDidChangeProfile = this.profileEmitter.event;
+
+    /**
+     * Fires for every ticker of the primary client's price stream.
+     */
+    readonly onDidUpdateTicker = this.tickerEmitter.event;
+
+    /**
+     * Fires when open orders or fills of any active profile changed.
+     */
+    readonly onDidChangeOrders = this.ordersEmitter.event;
+
+    /**
+     * Fires with the resume time when REST requests are held back for rate limits, and
+     * with null once they flow again.
+     */
+    readonly onDidChangeRateLimit = this.scheduler.onDidChangeState;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly coordinator: WindowCoordinator<SharedBalances>
+    ) {
+        this.balanceCache = new BalanceCache(context.globalStorageUri);
+        if (!coordinator.isLeader()) {
+            this.sharedBalances = coordinator.readState();
+        }
+        coordinator.onDidReceiveState((shared) => {
+            this.sharedBalances = shared;
+            this.applySharedBalances();
+        });
+        coordinator.onDidChangeRole(() => {
+            this.applySharedBalances();
+            this.scheduleOrderPoll();
+        });
+        this.syncClients();
+        this.scheduleOrderPoll();
+    }
+
+    getProfiles(): Profile[] {
+        const profiles = this.context.globalState.get<Profile[]>(PROFILES_KEY);
+        return profiles && profiles.length > 0 ? profiles : [DEFAULT_PROFILE];
+    }
+
+    getProfile(id: string): Profile | undefined {
+        return this.getProfiles().find((profile) => profile.id === id);
+    }
+
+    /**
+     * Id of the active profile, or `ALL_PROFILES` in "All accounts" mode.
+     */
+    getActiveProfileId(): string {
+        const active = this.context.globalState.get<string>(ACTIVE_PROFILE_KEY);
+        if (active === ALL_PROFILES || (active && this.getProfile(active))) {
+            return active;
+        }
+        return this.getProfiles()[0].id;
+    }
+
+    isAllProfilesMode(): boolean {
+        return this.getActiveProfileId() === ALL_PROFILES;
+    }
+
+    /**
+     * Label for the current selection, e.g. `Personal` or `All accounts (2)`.
+     */
+    getActiveLabel(): string {
+        if (this.isAllProfilesMode()) {
+            return `All accounts (${this.getProfiles().length})`;
+        }
+        return this.getProfile(this.getActiveProfileId())?.name ?? DEFAULT_PROFILE.name;
+    }
+
+    getActiveProfiles(): Profile[] {
+        if (this.isAllProfilesMode()) {
+            return this.getProfiles();
+        }
+        const active = this.getProfile(this.getActiveProfileId());
+        return active ? [active] : [];
+    }
+
+    async setActiveProfile(id: string): Promise<void> {
+        await this.context.globalState.update(ACTIVE_PROFILE_KEY, id);
+        this.syncClients();
+        this.profileEmitter.fire();
+    }
+
+    async addProfile(name: string): Promise<Profile> {
+        const profile: Profile = { id: crypto.randomUUID(), name };
+        await this.context.globalState.update(PROFILES_KEY, [...this.getProfiles(), profile]);
+        return profile;
+    }
+
+    /**
+     * Remove a profile and delete its stored credentials. The last profile cannot be removed.
+     */
+    async removeProfile(id: string): Promise<void> {
+        const remaining = this.getProfiles().filter((profile) => profile.id !== id);
+        if (remaining.length === 0) {
+            throw new Error('At least one profile is required');
+        }
+
+        await this.getCredentialStore(id).clear();
+        await this.context.globalState.update(PROFILES_KEY, remaining);
+
+        if (this.getActiveProfileId() === id) {
+            await this.context.globalState.update(ACTIVE_PROFILE_KEY, remaining[0].id);
+        }
+        this.syncClients();
+        this.profileEmitter.fire();
+    }
+
+    getCredentialStore(profileId: string): CredentialStore {
+        return new CredentialStore(this.context.secrets, profileId);
+    }
+
+    /**
+     * Clients of the active profile(s), created on demand.
+     */
+    getActiveClients(): { profile: Profile; client: BinanceApiClient }[] {
+        return this.getActiveProfiles().map((profile) => ({
+            profile,
+            client: this.getClient(profile.id),
+        }));
+    }
+
+    /**
+     * Client for the first active profile; used for market data such as prices.
+     */
+    getPrimaryClient(): BinanceApiClient {
+        return this.getClient(this.getPrimaryProfileId());
+    }
+
+    private getPrimaryProfileId(): string {
+        return this.getActiveProfiles()[0]?.id ?? DEFAULT_PROFILE_ID;
+    }
+
+    private getClient(profileId: string): BinanceApiClient {
+        let client = this.clients.get(profileId);
+        if (!client) {
+            const snapshot = this.getSharedSnapshot(profileId);
+            client = new BinanceApiClient(
+                this.getCredentialStore(profileId),
+                this.endpoints,
+                this.scheduler,
+                workspaceConfig,
+                { mirrored: snapshot !== undefined }
+            );
+            client.onBalanceUpdate(() => this.handleSilentUpdate());
+            client.onCredentialsChange(() => this.onCredentialsChangeCallback?.());
+            client.onOrdersChange(() => {
+                this.ordersEmitter.fire();
+                this.publishBalances();
+            });
+            client.onTicker((ticker) => {
+                // Every client streams the same market data; forward the primary one only
+                if (client === this.clients.get(this.getPrimaryProfileId())) {
+                    this.tickerEmitter.fire(ticker);
+                }
+            });
+            this.clients.set(profileId, client);
+            if (snapshot) {
+                client.applySnapshot(snapshot);
+            }
+        }
+        return client;
+    }
+
+    /**
+     * The leader's snapshot of a profile, when this window follows and can mirror it.
+     */
+    private getSharedSnapshot(profileId: string): ClientSnapshot | undefined {
+        const shared = this.sharedBalances;
+        if (
+            this.coordinator.isLeader() ||
+            !shared ||
+            !sameEndpoints(shared.endpoints, this.endpoints)
+        ) {
+            return undefined;
+        }
+        return shared.clients[profileId];
+    }
+
+    /**
+     * Mirror the leader's snapshots into the active clients after new state arrived or the
+     * role changed. Clients without a snapshot go live and load their balance.
+     */
+    private applySharedBalances() {
+        for (const { profile, client } of this.getActiveClients()) {
+            const snapshot = this.getSharedSnapshot(profile.id);
+            if (snapshot) {
+                client.setMirrored(true);
+                client.applySnapshot(snapshot);
+            } else if (client.isMirrored()) {
+                client.setMirrored(false);
+                client.getTotalEstimatedBalance().then(
+                    () => this.handleSilentUpdate(),
+                    (error) => console.warn('Failed to load balance after leaving mirror:', error)
+                );
+            }
+        }
+        if (this.coordinator.isLeader()) {
+            this.publishBalances();
+        }
+    }
+
+    /**
+     * Publish the active clients' state to the other windows when this window leads.
+     */
+    private publishBalances() {
+        if (!this.coordinator.isLeader()) {
+            return;
+        }
+        const clients: Record<string, ClientSnapshot> = {};
+        for (const [id, client] of this.clients) {
+            const snapshot = client.getSnapshot();
+            if (snapshot) {
+                clients[id] = snapshot;
+            }
+        }
+        this.coordinator.publish({
+            endpoints: this.endpoints,
+            clients,
+            costBases: this.costBases,
+        });
+    }
+
+    /**
+     * Hand an account's cost basis to the other windows along with the balances. Only
+     * published while this window leads.
+     *
+     * @param accountId - Account as identified by `PnlTracker`
+     */
+    shareCostBasis(accountId: string, bases: Record<string, CostBasis>) {
+        this.costBases[accountId] = bases;
+        this.publishBalances();
+    }
+
+    /**
+     * An account's cost basis as published by the leader window, for mirrored profiles.
+     */
+    getSharedCostBasis(accountId: string): Record<string, CostBasis> | undefined {
+        return this.sharedBalances?.costBases?.[accountId];
+    }
+
+    /**
+     * Save the state of the clients this window loads itself; mirrored ones are saved by
+     * the window they come from.
+     */
+    private saveBalances() {
+        for (const [id, client] of this.clients) {
+            const snapshot = client.isMirrored() ? null : client.getSnapshot();
+            if (snapshot) {
+                this.balanceCache.set(this.getAccountId(id), snapshot);
+            }
+        }
+    }
+
+    /**
+     * Key of a profile's saved state; environments do not share balances.
+     */
+    private getAccountId(profileId: string): string {
+        return `${this.endpoints.environment}:${profileId}`;
+    }
+
+    /**
+     * The last known balance of the active profiles, before the first request completes.
+     * Clients without a balance get the one saved by an earlier session, see
+     * `restoreSnapshot`. Undefined when a configured profile has neither.
+     */
+    async getSavedBalance(): Promise<SavedBalance | undefined> {
+        const snapshots = await Promise.all(
+            this.configuredClients().map(async ({ profile, client }) => {
+                const current = client.getSnapshot();
+                if (current) {
+                    return current;
+                }
+                const saved = await this.balanceCache.get(this.getAccountId(profile.id));
+                if (saved && !client.getLastBalance()) {
+                    client.restoreSnapshot(saved);
+                }
+                return saved;
+            })
+        );
+        if (snapshots.length === 0 || snapshots.some((snapshot) => !snapshot)) {
+            return undefined;
+        }
+
+        const saved = snapshots as ClientSnapshot[];
+        return {
+            balance: combineBalances(saved.map((snapshot) => snapshot.balance)),
+            updatedAt: Math.min(...saved.map((snapshot) => snapshot.updatedAt)),
+        };
+    }
+
+    /**
+     * Whether Binance can be reached, see `BinanceApiClient.ping`.
+     */
+    ping(): Promise<void> {
+        return this.getPrimaryClient().ping();
+    }
+
+    /**
+     * Whether any active profile shows data published by another window.
+     */
+    isMirrored(): boolean {
+        return this.getActiveClients().some(({ client }) => client.isMirrored());
+    }
+
+    /**
+     * Create clients for the active profiles and dispose the others, closing their streams.
+     */
+    private syncClients() {
+        const activeIds = new Set(this.getActiveProfiles().map((profile) => profile.id));
+        for (const [id, client] of this.clients) {
+            if (!activeIds.has(id)) {
+                client.dispose();
+                this.clients.delete(id);
+            }
+        }
+        activeIds.forEach((id) => this.getClient(id));
+
+        const primary = this.getPrimaryClient();
+        this.trackedSymbols.forEach((symbols, source) => primary.trackSymbols(source, symbols));
+    }
+
+    private configuredClients(): { profile: Profile; client: BinanceApiClient }[] {
+        return this.getActiveClients().filter(({ client }) => client.isConfigured());
+    }
+
+    private handleSilentUpdate() {
+        // Only publish once every configured profile has produced a balance
+        const balances = this.configuredClients().map(({ client }) => client.getLastBalance());
+        if (balances.length === 0 || balances.some((balance) => balance === null)) {
+            return;
+        }
+        const balance = combineBalances(balances as TotalEstimatedBalance[]);
+        this.onBalanceUpdateCallback?.(balance);
+        this.balanceEmitter.fire({ profileId: this.getActiveProfileId(), balance, silent: true });
+        this.publishBalances();
+        this.saveBalances();
+    }
+
+    onBalanceUpdate(callback: (balance: TotalEstimatedBalance) => void) {
+        this.onBalanceUpdateCallback = callback;
+    }
+
+    onCredentialsChange(callback: () => void) {
+        this.onCredentialsChangeCallback = callback;
+    }
+
+    async waitForConfiguration(): Promise<void> {
+        await Promise.all(
+            this.getActiveClients().map(({ client }) => client.waitForConfiguration())
+        );
+    }
+
+    /**
+     * True when at least one active profile has credentials.
+     */
+    isConfigured(): boolean {
+        return this.configuredClients().length > 0;
+    }
+
+    isUserDataStreamConnected(): boolean {
+        const clients = this.configuredClients();
+        return (
+            clients.length > 0 && clients.every(({ client }) => client.isUserDataStreamConnected())
+        );
+    }
+
+    /**
+     * Balance of every configured active profile.
+     */
+    async getProfileBalances(useCache = false): Promise<ProfileBalance[]> {
+        return Promise.all(
+            this.configuredClients().map(async ({ profile, client }) => ({
+                profile,
+                balance: await client.getTotalEstimatedBalance(useCache),
+            }))
+        );
+    }
+
+    /**
+     * Total of the active profile, or the combined total in "All accounts" mode.
+     */
+    async getTotalEstimatedBalance(useCache = false): Promise<TotalEstimatedBalance> {
+        const balances = await this.getProfileBalances(useCache);
+        const balance = combineBalances(balances.map((entry) => entry.balance));
+        this.balanceEmitter.fire({ profileId: this.getActiveProfileId(), balance, silent: false });
+        this.publishBalances();
+        this.saveBalances();
+        return balance;
+    }
+
+    /**
+     * Keep the open orders of the active profiles current while the returned disposable
+     * lives, e.g. while a view showing them is visible. Spot orders follow the user data
+     * stream when it is connected, with a full reload every `consistencyCheckInterval`.
+     *
+     * Only the leader window polls; it also polls while a follower watches, and the
+     * followers get the orders with its snapshots.
+     */
+    watchOrders(): vscode.Disposable {
+        if (this.orderWatchers++ === 0 && !this.orderPolling) {
+            if (this.orderTimer) {
+                clearTimeout(this.orderTimer);
+                this.orderTimer = undefined;
+            }
+            this.pollOrders();
+        }
+
+        let disposed = false;
+        return new vscode.Disposable(() => {
+            if (disposed) {
+                return;
+            }
+            disposed = true;
+            if (--this.orderWatchers === 0 && this.orderTimer && !this.coordinator.isLeader()) {
+                clearTimeout(this.orderTimer);
+                this.orderTimer = undefined;
+            }
+        });
+    }
+
+    /**
+     * Reload the open orders of every configured active profile.
+     *
+     * @param full - Also reload spot orders that the user data stream keeps current
+     */
+    async refreshOpenOrders(full = false): Promise<void> {
+        try {
+            await Promise.all(
+                this.configuredClients().map(({ client }) => client.refreshOpenOrders(full))
+            );
+            this.orderError = undefined;
+        } catch (error) {
+            this.orderError = toApiError(error).message;
+            this.ordersEmitter.fire();
+            throw error;
+        }
+    }
+
+    /**
+     * Why the last open order refresh failed, or undefined after a successful one.
+     */
+    getOrderError(): string | undefined {
+        return this.orderError;
+    }
+
+    private async pollOrders() {
+        this.orderTimer = undefined;
+        if (!this.coordinator.isLeader()) {
+            this.coordinator.requestData(ORDERS_TOPIC);
+            // Until the leader's next poll, load what the leader has not loaded yet
+            const unloaded = this.configuredClients().some(
+                ({ client }) => !client.getOrderModel().isLoaded('spot')
+            );
+            if (unloaded) {
+                await this.loadOrders();
+            }
+        } else if (this.orderWatchers > 0 || this.coordinator.isDataRequested(ORDERS_TOPIC)) {
+            await this.loadOrders();
+        }
+        this.scheduleOrderPoll();
+    }
+
+    private async loadOrders() {
+        this.orderPolling = true;
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        const full =
+            Date.now() - this.lastFullOrderRefresh >=
+            config.get<number>('consistencyCheckInterval', 300000);
+
+        try {
+            await this.refreshOpenOrders(full);
+            if (full) {
+                this.lastFullOrderRefresh = Date.now();
+            }
+        } catch (error) {
+            console.warn('Failed to refresh open orders:', error);
+        } finally {
+            this.orderPolling = false;
+        }
+    }
+
+    /**
+     * Poll again in 30 seconds while orders are watched here or, in the leader, while
+     * another window may ask for them.
+     */
+    private scheduleOrderPoll() {
+        if (!this.orderTimer && (this.orderWatchers > 0 || this.coordinator.isLeader())) {
+            this.orderTimer = setTimeout(() => this.pollOrders(), ORDER_REFRESH_INTERVAL);
+        }
+    }
+
+    /**
+     * Time until which REST requests are held back for rate limits, or null.
+     */
+    getRateLimitResumeTime(): number | null {
+        return this.scheduler.getResumeTime();
+    }
+
+    getEndpoints(): Endpoints {
+        return this.endpoints;
+    }
+
+    /**
+     * Validate a key pair against the current environment before it is stored.
+     * See `checkApiKey`.
+     */
+    checkCredentials(credentials: Credentials): Promise<KeyCheckResult> {
+        return checkApiKey(credentials, this.endpoints, this.scheduler);
+    }
+
+    /**
+     * Express a USDT amount in any display currency, e.g. `EUR`, `KRW`, `BTC` or `SOL`.
+     * See `CurrencyConverter`.
+     */
+    convertFromUSDT(amountUSDT: number, currency: string): Promise<ConvertedAmount | null> {
+        return this.currencyConverter.fromUSDT(amountUSDT, currency);
+    }
+
+    getPrice(symbol: string, useCache = false): Promise<number> {
+        return this.getPrimaryClient().getPrice(symbol, useCache);
+    }
+
+    get24hrTickers(symbols: string[]): Promise<TickerUpdate[]> {
+        return this.getPrimaryClient().get24hrTickers(symbols);
+    }
+
+    /**
+     * Keep symbols live on the primary client's ticker stream. The request is remembered
+     * and re-applied when another profile becomes primary.
+     */
+    trackSymbols(source: string, symbols: string[]) {
+        this.trackedSymbols.set(source, symbols);
+        this.getPrimaryClient().trackSymbols(source, symbols);
+    }
+
+    /**
+     * Apply a change of the `useUserDataStream` setting without resetting any client.
+     */
+    syncUserDataStreams() {
+        this.clients.forEach((client) => client.syncUserDataStream());
+    }
+
+    /**
+     * Reload credentials and settings. When the environment or its URLs changed, every
+     * client is replaced, since caches and streams belong to one set of servers.
+     */
+    async refreshConfiguration(): Promise<void> {
+        const endpoints = getEndpoints();
+        if (!sameEndpoints(endpoints, this.endpoints)) {
+            this.endpoints = endpoints;
+            this.clients.forEach((client) => client.dispose());
+            this.clients.clear();
+            this.syncClients();
+        }
+
+        await Promise.all(
+            this.getActiveClients().map(({ client }) => client.refreshConfiguration())
+        );
+    }
+
+    dispose() {
+        this.clients.forEach((client) => client.dispose());
+        this.clients.clear();
+        this.balanceEmitter.dispose();
+        this.profileEmitter.dispose();
+        this.tickerEmitter.dispose();
+        this.ordersEmitter.dispose();
+        this.balanceCache.dispose();
+        if (this.orderTimer) {
+            clearTimeout(this.orderTimer);
+        }
+        this.scheduler.dispose();
+    }
+}
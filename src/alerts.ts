@@ -0,0 +1,371 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { TotalEstimatedBalance, WALLET_LABELS, WalletType } from './core/binanceApi';
+import { TickerUpdate } from './core/priceStream';
+import { QUOTE_ASSET } from './core/pricing';
+import { formatCurrency } from './currency';
+import { PrivacyMode } from './privacy';
+
+/**
+ * Alert when the total drops below (or rises above) a fixed USDT amount.
+ */
+export interface TotalThresholdRule {
+    type: 'totalBelow' | 'totalAbove';
+    threshold: number;
+}
+
+/**
+ * Alert when the total moves more than `percent` within `minutes`.
+ */
+export interface TotalChangeRule {
+    type: 'totalChange';
+    percent: number;
+    minutes: number;
+}
+
+/**
+ * Alert when a symbol's last price crosses a level.
+ */
+export interface PriceCrossRule {
+    type: 'priceCross';
+    symbol: string;
+    price: number;
+    direction: 'above' | 'below';
+}
+
+/**
+ * Alert when a wallet's USDT value turns negative, e.g. margin debt exceeding assets.
+ */
+export interface WalletNegativeRule {
+    type: 'walletNegative';
+    wallet: WalletType;
+}
+
+export type AlertCondition =
+    | TotalThresholdRule
+    | TotalChangeRule
+    | PriceCrossRule
+    | WalletNegativeRule;
+
+export type AlertRule = AlertCondition & { id: string };
+
+const RULES_KEY = 'binanceBalance.alertRules';
+
+/** Per-rule runtime state; not persisted */
+interface RuleState {
+    active: boolean;
+    lastFiredAt: number;
+}
+
+/**
+ * Human-readable description of a rule, e.g. `BTCUSDT crosses above 100000`.
+ */
+export function describeRule(rule: AlertCondition): string {
+    switch (rule.type) {
+        case 'totalBelow':
+            return `Total below ${formatCurrency(rule.threshold, QUOTE_ASSET)}`;
+        case 'totalAbove':
+            return `Total above ${formatCurrency(rule.threshold, QUOTE_ASSET)}`;
+        case 'totalChange':
+            return `Total changes more than ${rule.percent}% in ${rule.minutes} min`;
+        case 'priceCross':
+            return `${rule.symbol} crosses ${rule.direction} ${rule.price}`;
+        case 'walletNegative':
+            return `${WALLET_LABELS[rule.wallet]} wallet negative`;
+    }
+}
+
+/**
+ * Stores alert rules in `globalState` and evaluates them against every balance update
+ * and price tick.
+ *
+ * A rule notifies when its condition becomes true. It must then clear by the hysteresis
+ * margin (`alertHysteresisPercent`) before it can fire again, and never fires twice within
+ * `alertCooldownMinutes`. Rules whose condition currently holds are "active".
+ */
+export class AlertManager implements vscode.Disposable {
+    private states: Map<string, RuleState> = new Map();
+    /** Recent totals for `totalChange` rules per profile (or "All accounts"), oldest first */
+    private totals: Map<string, { t: number; total: number }[]> = new Map();
+    private readonly activeEmitter = new vscode.EventEmitter<AlertRule[]>();
+
+    /**
+     * Fires with the currently active rules whenever that set changes.
+     */
+    readonly onDidChangeActive = this.activeEmitter.event;
+
+    /**
+     * @param trackSymbols - Keeps the price of every `priceCross` symbol live
+     * @param privacy - Masks the current total in notifications while privacy mode is on
+     * @param notifies - Whether this window shows notifications; with several windows open
+     * only the leader does, while every window tracks which rules are active
+     */
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly trackSymbols: (symbols: string[]) => void,
+        private readonly privacy: PrivacyMode,
+        private readonly notifies: () => boolean
+    ) {
+        this.trackSymbols(this.priceSymbols());
+    }
+
+    getRules(): AlertRule[] {
+        return this.context.globalState.get<AlertRule[]>(RULES_KEY, []);
+    }
+
+    getActiveRules(): AlertRule[] {
+        return this.getRules().filter((rule) => this.states.get(rule.id)?.active);
+    }
+
+    async addRule(condition: AlertCondition): Promise<AlertRule> {
+        const rule = { ...condition, id: crypto.randomUUID() } as AlertRule;
+        await this.context.globalState.update(RULES_KEY, [...this.getRules(), rule]);
+        this.trackSymbols(this.priceSymbols());
+        return rule;
+    }
+
+    async removeRule(id: string): Promise<void> {
+        const wasActive = this.states.get(id)?.active ?? false;
+        await this.context.globalState.update(
+            RULES_KEY,
+            this.getRules().filter((rule) => rule.id !== id)
+        );
+        this.states.delete(id);
+        this.trackSymbols(this.priceSymbols());
+        if (wasActive) {
+            this.activeEmitter.fire(this.getActiveRules());
+        }
+    }
+
+    private priceSymbols(): string[] {
+        return this.getRules().flatMap((rule) => (rule.type === 'priceCross' ? [rule.symbol] : []));
+    }
+
+    /**
+     * Evaluate the balance rules against a new total. `totalChange` rules only compare
+     * totals of the same profile, so switching profiles does not count as a change.
+     *
+     * @param profileId - Profile (or "All accounts") the balance belongs to
+     */
+    checkBalance(profileId: string, balance: TotalEstimatedBalance) {
+        const now = Date.now();
+        const maxWindow = Math.max(
+            0,
+            ...this.getRules().map((rule) => (rule.type === 'totalChange' ? rule.minutes : 0))
+        );
+        this.totals.set(profileId, [
+            ...(this.totals.get(profileId) ?? []),
+            { t: now, total: balance.totalUSDT },
+        ]);
+        for (const [id, entries] of this.totals) {
+            const recent = entries.filter((entry) => now - entry.t <= maxWindow * 60000);
+            if (recent.length > 0) {
+                this.totals.set(id, recent);
+            } else {
+                this.totals.delete(id);
+            }
+        }
+        const totals = this.totals.get(profileId) ?? [];
+
+        const walletValues: Record<WalletType, number> = {
+            spot: balance.spotUSDT,
+            margin: balance.marginUSDT,
+            isolatedMargin: balance.isolatedMarginUSDT,
+            usdmFutures: balance.futuresUSDT + balance.futuresUnrealizedPnlUSDT,
+            coinmFutures: balance.coinFuturesUSDT + balance.coinFuturesUnrealizedPnlUSDT,
+        };
+
+        for (const rule of this.getRules()) {
+            switch (rule.type) {
+                case 'totalBelow':
+                    this.evaluate(rule, balance.totalUSDT, rule.threshold, 'below');
+                    break;
+                case 'totalAbove':
+                    this.evaluate(rule, balance.totalUSDT, rule.threshold, 'above');
+                    break;
+                case 'walletNegative':
+                    if (balance.includedWallets.includes(rule.wallet)) {
+                        this.evaluate(rule, walletValues[rule.wallet], 0, 'below');
+                    }
+                    break;
+                case 'totalChange': {
+                    const windowStart = now - rule.minutes * 60000;
+                    const baseline = totals.find((entry) => entry.t >= windowStart);
+                    if (baseline && baseline.total !== 0) {
+                        const change = Math.abs(
+                            ((balance.totalUSDT - baseline.total) / baseline.total) * 100
+                        );
+                        this.evaluate(rule, change, rule.percent, 'above');
+                    }
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * Evaluate the price rules of the ticker's symbol.
+     */
+    checkTicker(ticker: TickerUpdate) {
+        for (const rule of this.getRules()) {
+            if (rule.type === 'priceCross' && rule.symbol === ticker.symbol) {
+                this.evaluate(rule, ticker.lastPrice, rule.price, rule.direction);
+            }
+        }
+    }
+
+    /**
+     * Update one rule's state. The condition activates beyond `threshold` and, once active,
+     * only clears after moving back past `threshold` by the hysteresis margin.
+     */
+    private evaluate(
+        rule: AlertRule,
+        value: number,
+        threshold: number,
+        direction: 'above' | 'below'
+    ) {
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        const hysteresis = config.get<number>('alertHysteresisPercent', 0.5) / 100;
+        const cooldown = config.get<number>('alertCooldownMinutes', 15) * 60000;
+
+        const state = this.states.get(rule.id) ?? { active: false, lastFiredAt: 0 };
+        const margin = Math.abs(threshold) * hysteresis;
+
+        let active: boolean;
+        if (direction === 'above') {
+            active = state.active ? value > threshold - margin : value > threshold;
+        } else {
+            active = state.active ? value < threshold + margin : value < threshold;
+        }
+
+        if (active === state.active) {
+            return;
+        }
+
+        state.active = active;
+        this.states.set(rule.id, state);
+
+        if (active && Date.now() - state.lastFiredAt >= cooldown) {
+            // Counts as fired in every window, so a window taking over does not repeat it
+            state.lastFiredAt = Date.now();
+            if (this.notifies()) {
+                this.notify(rule, value);
+            }
+        }
+        this.activeEmitter.fire(this.getActiveRules());
+    }
+
+    private async notify(rule: AlertRule, value: number) {
+        const current =
+            rule.type === 'priceCross'
+                ? `${value}`
+                : rule.type === 'totalChange'
+                  ? `${value.toFixed(2)}%`
+                  : this.privacy.mask(formatCurrency(value, QUOTE_ASSET));
+        const action = await vscode.window.showWarningMessage(
+            `Binance alert: ${describeRule(rule)} (now ${current})`,
+            'Show Balances',
+            'Manage Alerts'
+        );
+
+        if (action === 'Show Balances') {
+            vscode.commands.executeCommand('binanceBalance.showBalances');
+        } else if (action === 'Manage Alerts') {
+            vscode.commands.executeCommand('binanceBalance.listAlerts');
+        }
+    }
+
+    dispose() {
+        this.activeEmitter.dispose();
+    }
+}
+
+/**
+ * Ask the user for a new rule step by step. Returns undefined when cancelled.
+ */
+export async function promptForAlertRule(): Promise<AlertCondition | undefined> {
+    const type = await vscode.window.showQuickPick(
+        [
+            { label: 'Total below amount', type: 'totalBelow' as const },
+            { label: 'Total above amount', type: 'totalAbove' as const },
+            { label: 'Total changes by percent', type: 'totalChange' as const },
+            { label: 'Price crosses level', type: 'priceCross' as const },
+            { label: 'Wallet value negative', type: 'walletNegative' as const },
+        ],
+        { title: 'Add Binance Alert', placeHolder: 'Select the alert type' }
+    );
+
+    switch (type?.type) {
+        case 'totalBelow':
+        case 'totalAbove': {
+            const threshold = await promptNumber('Threshold in USDT', 'e.g. 10000');
+            return threshold === undefined ? undefined : { type: type.type, threshold };
+        }
+        case 'totalChange': {
+            const percent = await promptNumber('Change in percent', 'e.g. 5');
+            if (percent === undefined) {
+                return undefined;
+            }
+            const minutes = await promptNumber('Within how many minutes', 'e.g. 60');
+            return minutes === undefined ? undefined : { type: 'totalChange', percent, minutes };
+        }
+        case 'priceCross': {
+            const symbol = await vscode.window.showInputBox({
+                prompt: 'Symbol',
+                placeHolder: 'e.g. BTCUSDT',
+                ignoreFocusOut: true,
+                validateInput: (value) =>
+                    /^[A-Za-z0-9]{5,20}$/.test(value.trim())
+                        ? undefined
+                        : 'Enter a symbol such as BTCUSDT',
+            });
+            if (!symbol) {
+                return undefined;
+            }
+            const price = await promptNumber('Price level', 'e.g. 100000');
+            if (price === undefined) {
+                return undefined;
+            }
+            const direction = await vscode.window.showQuickPick(
+                [
+                    { label: 'Crosses above', direction: 'above' as const },
+                    { label: 'Crosses below', direction: 'below' as const },
+                ],
+                { title: 'Direction' }
+            );
+            return direction
+                ? {
+                      type: 'priceCross',
+                      symbol: symbol.trim().toUpperCase(),
+                      price,
+                      direction: direction.direction,
+                  }
+                : undefined;
+        }
+        case 'walletNegative': {
+            const wallet = await vscode.window.showQuickPick(
+                (Object.keys(WALLET_LABELS) as WalletType[]).map((wallet) => ({
+                    label: WALLET_LABELS[wallet],
+                    wallet,
+                })),
+                { title: 'Wallet' }
+            );
+            return wallet ? { type: 'walletNegative', wallet: wallet.wallet } : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+async function promptNumber(prompt: string, placeHolder: string): Promise<number | undefined> {
+    const value = await vscode.window.showInputBox({
+        prompt,
+        placeHolder,
+        ignoreFocusOut: true,
+        validateInput: (input) =>
+            input.trim() !== '' && Number.isFinite(Number(input)) && Number(input) > 0
+                ? undefined
+                : 'Enter a positive number',
+    });
+    return value === undefined ? undefined : Number(value);
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { ClientSnapshot } from './core/binanceApi';
+
+interface BalanceCacheFile {
+    version: 1;
+    /** Last snapshot per account, see `AccountManager` */
+    accounts: Record<string, ClientSnapshot>;
+}
+
+/** Minimum time between two writes of the file */
+const SAVE_INTERVAL = 30000;
+
+/**
+ * Keeps the last balance and wallets of every account in the extension's global
+ * storage, so the next session can show them before its first request completes.
+ */
+export class BalanceCache implements vscode.Disposable {
+    private readonly fileUri: vscode.Uri;
+    private data: BalanceCacheFile = { version: 1, accounts: {} };
+    private loaded: Promise<void>;
+    private saveTimer?: NodeJS.Timeout;
+    private lastSave = 0;
+
+    constructor(private readonly storageUri: vscode.Uri) {
+        this.fileUri = vscode.Uri.joinPath(storageUri, 'last-balance.json');
+        this.loaded = this.load();
+    }
+
+    private async read(): Promise<BalanceCacheFile | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(this.fileUri);
+            const parsed = JSON.parse(Buffer.from(content).toString('utf8')) as BalanceCacheFile;
+            if (parsed.version === 1 && parsed.accounts) {
+                return parsed;
+            }
+        } catch {
+            // Nothing saved yet
+        }
+        return undefined;
+    }
+
+    private async load() {
+        this.data = (await this.read()) ?? this.data;
+    }
+
+    /**
+     * Write the snapshots, keeping those another window saved more recently.
+     */
+    private async save() {
+        this.saveTimer = undefined;
+        this.lastSave = Date.now();
+        const saved = await this.read();
+        for (const [accountId, snapshot] of Object.entries(saved?.accounts ?? {})) {
+            const current = this.data.accounts[accountId];
+            if (!current || current.updatedAt < snapshot.updatedAt) {
+                this.data.accounts[accountId] = snapshot;
+            }
+        }
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                this.fileUri,
+                Buffer.from(JSON.stringify(this.data), 'utf8')
+            );
+        } catch (error) {
+            console.warn('Failed to save last balance:', error);
+        }
+    }
+
+    /**
+     * The last saved snapshot of an account, if any.
+     */
+    async get(accountId: string): Promise<ClientSnapshot | undefined> {
+        await this.loaded;
+        return this.data.accounts[accountId];
+    }
+
+    /**
+     * Remember an account's snapshot. Writes are batched to one every 30 seconds.
+     */
+    async set(accountId: string, snapshot: ClientSnapshot): Promise<void> {
+        await this.loaded;
+        this.data.accounts[accountId] = snapshot;
+        if (!this.saveTimer) {
+            const delay = Math.max(0, this.lastSave + SAVE_INTERVAL - Date.now());
+            this.saveTimer = setTimeout(() => this.save(), delay);
+        }
+    }
+
+    dispose() {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            // Best effort: the window may close before the write completes
+            this.save();
+        }
+    }
+}
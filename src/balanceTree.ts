@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import { AccountManager, Profile } from './accountManager';
+import {
+    ALL_WALLETS,
+    BinanceApiClient,
+    OpenOrder,
+    TotalEstimatedBalance,
+    WALLET_LABELS,
+    WalletAsset,
+    WalletType,
+} from './core/binanceApi';
+import { QUOTE_ASSET } from './core/pricing';
+import { formatCurrency } from './currency';
+import { orderItem } from './ordersTree';
+import { PrivacyMode } from './privacy';
+
+/**
+ * A node of the wallets tree. Profiles only appear in "All accounts" mode.
+ */
+export type BalanceNode =
+    | { kind: 'profile'; profile: Profile; client: BinanceApiClient }
+    | { kind: 'wallet'; wallet: WalletType; assets: WalletAsset[]; client: BinanceApiClient }
+    | { kind: 'pair'; symbol: string; assets: WalletAsset[]; client: BinanceApiClient }
+    | { kind: 'asset'; asset: WalletAsset; orders: OpenOrder[] }
+    | { kind: 'order'; order: OpenOrder };
+
+/**
+ * Sidebar view listing every wallet of the active profile(s) with its assets.
+ *
+ * Reads the wallets behind the last computed balance, so it refreshes on the same
+ * `onDidUpdateBalance` events that drive the status bar and never calls the API itself.
+ * Assets with a locked amount list the open orders that lock it.
+ */
+export class BalanceTreeProvider
+    implements vscode.TreeDataProvider<BalanceNode>, vscode.Disposable
+{
+    private readonly changeEmitter = new vscode.EventEmitter<BalanceNode | undefined>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private readonly accounts: AccountManager,
+        private readonly privacy: PrivacyMode
+    ) {
+        this.disposables.push(
+            this.accounts.onDidUpdateBalance(() => this.changeEmitter.fire(undefined)),
+            this.accounts.onDidChangeOrders(() => this.changeEmitter.fire(undefined)),
+            this.accounts.onDidChangeProfile(() => this.changeEmitter.fire(undefined)),
+            this.privacy.onDidChange(() => this.changeEmitter.fire(undefined))
+        );
+    }
+
+    getChildren(node?: BalanceNode): BalanceNode[] {
+        if (!node) {
+            const clients = this.accounts
+                .getActiveClients()
+                .filter(({ client }) => getShownBalance(client) !== null);
+
+            if (this.accounts.isAllProfilesMode()) {
+                return clients.map(({ profile, client }) => ({ kind: 'profile', profile, client }));
+            }
+            return clients.length > 0 ? walletNodes(clients[0].client) : [];
+        }
+
+        switch (node.kind) {
+            case 'profile':
+                return walletNodes(node.client);
+            case 'wallet':
+                return node.wallet === 'isolatedMargin'
+                    ? pairNodes(node.assets, node.client)
+                    : assetNodes(node.assets, node.client);
+            case 'pair':
+                return assetNodes(node.assets, node.client);
+            case 'asset':
+                return node.orders.map((order) => ({ kind: 'order', order }));
+            case 'order':
+                return [];
+        }
+    }
+
+    getTreeItem(node: BalanceNode): vscode.TreeItem {
+        const usd = (value: number) => this.privacy.mask(formatCurrency(value, QUOTE_ASSET));
+        switch (node.kind) {
+            case 'profile': {
+                const item = new vscode.TreeItem(
+                    node.profile.name,
+                    vscode.TreeItemCollapsibleState.Expanded
+                );
+                const balance = getShownBalance(node.client);
+                item.description = balance ? usd(balance.totalUSDT) : undefined;
+                item.iconPath = new vscode.ThemeIcon('account');
+                item.contextValue = 'binanceProfile';
+                return item;
+            }
+            case 'wallet': {
+                const item = new vscode.TreeItem(
+                    WALLET_LABELS[node.wallet],
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.description = usd(sumValues(node.assets));
+                item.iconPath = new vscode.ThemeIcon('credit-card');
+                item.contextValue = 'binanceWallet';
+                return item;
+            }
+            case 'pair': {
+                const item = new vscode.TreeItem(
+                    node.symbol,
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.description = usd(sumValues(node.assets));
+                item.iconPath = new vscode.ThemeIcon('arrow-swap');
+                item.contextValue = 'binancePair';
+                return item;
+            }
+            case 'asset':
+                return assetItem(node.asset, node.orders, this.privacy);
+            case 'order':
+                return orderItem(node.order, this.privacy);
+        }
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
+
+/**
+ * Binance web page for an asset: its trade page in the matching wallet, or the wallet
+ * overview for the quote asset itself.
+ */
+export function getBinanceUrl(asset: WalletAsset): string {
+    switch (asset.wallet) {
+        case 'margin':
+            return `https://www.binance.com/en/trade/${asset.asset}_USDT?type=cross`;
+        case 'isolatedMargin': {
+            const symbol = asset.symbol ?? `${asset.asset}USDT`;
+            const base = symbol.endsWith(asset.asset)
+                ? symbol.slice(0, -asset.asset.length)
+                : asset.asset;
+            const quote = symbol.slice(base.length);
+            return `https://www.binance.com/en/trade/${base}_${quote}?type=isolated`;
+        }
+        case 'usdmFutures':
+            return asset.asset === 'USDT'
+                ? 'https://www.binance.com/en/my/wallet/account/futures'
+                : `https://www.binance.com/en/futures/${asset.asset}USDT`;
+        case 'coinmFutures':
+            return `https://www.binance.com/en/delivery/${asset.asset}usd_perpetual`;
+        default:
+            return asset.asset === 'USDT'
+                ? 'https://www.binance.com/en/my/wallet/account/main'
+                : `https://www.binance.com/en/trade/${asset.asset}_USDT?type=spot`;
+    }
+}
+
+/**
+ * Amount of an asset as shown in the tree and copied to the clipboard.
+ */
+export function formatAmount(amount: number): string {
+    return amount.toLocaleString('en-US', { maximumFractionDigits: 8, useGrouping: false });
+}
+
+/**
+ * Open orders that lock part of an asset; empty when nothing is locked or the orders of
+ * its wallet have not been loaded.
+ */
+export function getLockingOrders(client: BinanceApiClient, asset: WalletAsset): OpenOrder[] {
+    if (asset.locked <= 0 || asset.wallet === 'usdmFutures' || asset.wallet === 'coinmFutures') {
+        return [];
+    }
+    return client.getOrderModel().getOrdersLocking(asset.wallet, asset.asset, asset.symbol);
+}
+
+/**
+ * The client's current balance or, until the first one arrives, the one of an earlier
+ * session.
+ */
+function getShownBalance(client: BinanceApiClient): TotalEstimatedBalance | null {
+    return client.getLastBalance() ?? client.getRestoredSnapshot()?.balance ?? null;
+}
+
+function walletNodes(client: BinanceApiClient): BalanceNode[] {
+    const assets = client.getLastBalance()
+        ? client.getWalletAssets()
+        : client.getRestoredWalletAssets();
+    return ALL_WALLETS.map((wallet) => ({
+        kind: 'wallet' as const,
+        wallet,
+        assets: assets.filter((asset) => asset.wallet === wallet),
+        client,
+    })).filter((node) => node.assets.length > 0);
+}
+
+function pairNodes(assets: WalletAsset[], client: BinanceApiClient): BalanceNode[] {
+    const pairs: Map<string, WalletAsset[]> = new Map();
+    for (const asset of assets) {
+        const symbol = asset.symbol ?? asset.asset;
+        pairs.set(symbol, [...(pairs.get(symbol) ?? []), asset]);
+    }
+    return [...pairs].map(([symbol, pairAssets]) => ({
+        kind: 'pair',
+        symbol,
+        assets: pairAssets,
+        client,
+    }));
+}
+
+/**
+ * Assets sorted by USDT value, unvalued ones last.
+ */
+function assetNodes(assets: WalletAsset[], client: BinanceApiClient): BalanceNode[] {
+    return [...assets]
+        .sort((a, b) => (b.valueUSDT ?? -Infinity) - (a.valueUSDT ?? -Infinity))
+        .map((asset) => ({ kind: 'asset', asset, orders: getLockingOrders(client, asset) }));
+}
+
+function assetItem(asset: WalletAsset, orders: OpenOrder[], privacy: PrivacyMode): vscode.TreeItem {
+    const amount = (value: number) => privacy.mask(formatAmount(value));
+    const item = new vscode.TreeItem(
+        asset.asset,
+        orders.length > 0
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None
+    );
+    const value =
+        asset.valueUSDT !== null
+            ? privacy.mask(formatCurrency(asset.valueUSDT, QUOTE_ASSET))
+            : 'no price';
+    item.description = `${amount(asset.amount)} · ${value}`;
+    item.iconPath = new vscode.ThemeIcon(
+        asset.amount < 0 ? 'arrow-down' : 'circle-small-filled',
+        asset.amount < 0 ? new vscode.ThemeColor('errorForeground') : undefined
+    );
+    item.contextValue = 'binanceAsset';
+
+    const lines = [
+        `${asset.asset} · ${WALLET_LABELS[asset.wallet]}${asset.symbol ? ` (${asset.symbol})` : ''}`,
+        `Free: ${amount(asset.free)}`,
+        `Locked: ${amount(asset.locked)}${orders.length > 0 ? ` by ${describeOrderCount(orders)}` : ''}`,
+    ];
+    if (asset.wallet === 'margin' || asset.wallet === 'isolatedMargin') {
+        lines.push(`Borrowed: ${amount(asset.borrowed)}`);
+    }
+    if (asset.wallet === 'usdmFutures' || asset.wallet === 'coinmFutures') {
+        lines.push(`Unrealized PnL: ${amount(asset.unrealizedProfit)}`);
+    }
+    lines.push(
+        asset.valueUSDT !== null
+            ? `Value: ${privacy.mask(formatCurrency(asset.valueUSDT, QUOTE_ASSET))}`
+            : 'Value: no market pair to value it, excluded from the total'
+    );
+    item.tooltip = lines.join('\n');
+    return item;
+}
+
+export function describeOrderCount(orders: OpenOrder[]): string {
+    return `${orders.length} open order${orders.length === 1 ? '' : 's'}`;
+}
+
+function sumValues(assets: WalletAsset[]): number {
+    return assets.reduce((sum, asset) => sum + (asset.valueUSDT ?? 0), 0);
+}
@@ -0,0 +1,303 @@
+import { format } from 'util';
+import { toApiError } from './core/apiErrors';
+import {
+    ALL_WALLETS,
+    BinanceApiClient,
+    describeUnavailableWallet,
+    TotalEstimatedBalance,
+    WALLET_LABELS,
+    WalletAsset,
+    WalletType,
+} from './core/binanceApi';
+import { StaticConfig, StaticCredentials } from './core/config';
+import { BinanceEnvironment, DEFAULT_MOCK_SERVER_PORT, resolveEndpoints } from './core/endpoints';
+import { RequestScheduler } from './core/requestScheduler';
+import { MockBinanceServer } from './mockServer';
+
+const USAGE = `Usage: binance-balance [options]
+
+Print the estimated balance of a Binance account in USDT, per wallet and per asset.
+
+Options:
+  --json                  Print JSON instead of tables
+  --wallets <list>        Comma-separated wallets to include: ${ALL_WALLETS.join(', ')}
+                          (default: all)
+  --environment <name>    mainnet, testnet or mock (default: mainnet); mock starts the
+                          bundled mock server and needs no API key
+  --mock-port <port>      Port of the mock server (default: ${DEFAULT_MOCK_SERVER_PORT})
+  --recv-window <ms>      Validity window of signed requests (default: 5000)
+  --verbose               Log requests and connections to stderr
+  -h, --help              Show this help
+
+Environment:
+  BINANCE_API_KEY, BINANCE_API_SECRET   API key pair; a read-only key is enough
+
+Exit status: 0 on success, 1 when the balance could not be loaded, 2 on invalid usage.
+`;
+
+const CLI_ENVIRONMENTS: BinanceEnvironment[] = ['mainnet', 'testnet', 'mock'];
+
+interface CliOptions {
+    json: boolean;
+    help: boolean;
+    wallets: WalletType[];
+    environment: BinanceEnvironment;
+    mockPort: number;
+    recvWindow: number;
+    verbose: boolean;
+}
+
+/**
+ * Invalid command line; printed with the usage hint and exit status 2.
+ */
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = {
+        json: false,
+        help: false,
+        wallets: [...ALL_WALLETS],
+        environment: 'mainnet',
+        mockPort: DEFAULT_MOCK_SERVER_PORT,
+        recvWindow: 5000,
+        verbose: false,
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            const next = args[++i];
+            if (next === undefined || next.startsWith('--')) {
+                throw new UsageError(`${arg} needs a value`);
+            }
+            return next;
+        };
+        const positive = (text: string) => {
+            const number = Number(text);
+            if (!Number.isInteger(number) || number <= 0) {
+                throw new UsageError(`${arg} must be a positive whole number, got "${text}"`);
+            }
+            return number;
+        };
+
+        switch (arg) {
+            case '--json':
+                options.json = true;
+                break;
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            case '--wallets': {
+                const wallets = value()
+                    .split(',')
+                    .map((wallet) => wallet.trim())
+                    .filter((wallet) => wallet !== '');
+                const unknown = wallets.find(
+                    (wallet) => !ALL_WALLETS.includes(wallet as WalletType)
+                );
+                if (unknown !== undefined || wallets.length === 0) {
+                    throw new UsageError(`Unknown wallet "${unknown ?? ''}"`);
+                }
+                options.wallets = wallets as WalletType[];
+                break;
+            }
+            case '--environment': {
+                const environment = value() as BinanceEnvironment;
+                if (!CLI_ENVIRONMENTS.includes(environment)) {
+                    throw new UsageError(`Unknown environment "${environment}"`);
+                }
+                options.environment = environment;
+                break;
+            }
+            case '--mock-port':
+                options.mockPort = positive(value());
+                break;
+            case '--recv-window':
+                options.recvWindow = positive(value());
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            default:
+                throw new UsageError(`Unknown option "${arg}"`);
+        }
+    }
+    return options;
+}
+
+const usdt = (value: number) =>
+    value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const amount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 8 });
+
+const price = (value: number) =>
+    value >= 1 ? usdt(value) : value.toLocaleString('en-US', { maximumSignificantDigits: 6 });
+
+/**
+ * Left-align the first column and right-align the others.
+ */
+function formatTable(rows: string[][]): string {
+    const widths = rows[0].map((_, column) =>
+        Math.max(...rows.map((row) => (row[column] ?? '').length))
+    );
+    return rows
+        .map((row) =>
+            row
+                .map((cell, column) =>
+                    column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+                )
+                .join('  ')
+                .trimEnd()
+        )
+        .join('\n');
+}
+
+/**
+ * Wallet totals, then one table of assets per wallet, largest value first.
+ */
+function formatReport(balance: TotalEstimatedBalance, assets: WalletAsset[]): string {
+    const walletValues: Record<WalletType, number> = {
+        spot: balance.spotUSDT,
+        margin: balance.marginUSDT,
+        isolatedMargin: balance.isolatedMarginUSDT,
+        usdmFutures: balance.futuresUSDT + balance.futuresUnrealizedPnlUSDT,
+        coinmFutures: balance.coinFuturesUSDT + balance.coinFuturesUnrealizedPnlUSDT,
+    };
+
+    const summary = [
+        ['Wallet', 'Value (USDT)'],
+        ...balance.includedWallets.map((wallet) => {
+            const unavailable = balance.unavailableWallets.find((entry) => entry.wallet === wallet);
+            return [
+                WALLET_LABELS[wallet],
+                unavailable ? describeUnavailableWallet(unavailable) : usdt(walletValues[wallet]),
+            ];
+        }),
+        ['Total', usdt(balance.totalUSDT)],
+    ];
+    const sections = [formatTable(summary)];
+
+    for (const wallet of balance.includedWallets) {
+        const held = assets
+            .filter((asset) => asset.wallet === wallet && asset.amount !== 0)
+            .sort((a, b) => (b.valueUSDT ?? -Infinity) - (a.valueUSDT ?? -Infinity));
+        if (held.length === 0) {
+            continue;
+        }
+
+        const rows = held.map((asset) => [
+            asset.symbol ? `${asset.asset} (${asset.symbol})` : asset.asset,
+            amount(asset.amount),
+            asset.priceUSDT !== null ? price(asset.priceUSDT) : '-',
+            asset.valueUSDT !== null ? usdt(asset.valueUSDT) : 'no price',
+        ]);
+        sections.push(
+            `${WALLET_LABELS[wallet]}\n` +
+                formatTable([['Asset', 'Amount', 'Price (USDT)', 'Value (USDT)'], ...rows])
+        );
+    }
+
+    return sections.join('\n\n');
+}
+
+/**
+ * The core logs its connections through `console`. Keep that off stdout, which carries
+ * the report, and drop it unless `--verbose` is given.
+ */
+function redirectConsole(verbose: boolean) {
+    const log = verbose
+        ? (...args: unknown[]) => process.stderr.write(`${format(...args)}\n`)
+        : () => undefined;
+    console.log = log;
+    console.info = log;
+    console.warn = log;
+    console.error = log;
+}
+
+async function main(args: string[]): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`binance-balance: ${error.message}\nTry --help.\n`);
+            return 2;
+        }
+        throw error;
+    }
+
+    if (options.help) {
+        process.stdout.write(USAGE);
+        return 0;
+    }
+    redirectConsole(options.verbose);
+
+    const config = new StaticConfig({
+        environment: options.environment,
+        mockServerPort: options.mockPort,
+        includedWallets: options.wallets,
+        recvWindow: options.recvWindow,
+        // One-shot: no live updates
+        useUserDataStream: false,
+    });
+    const endpoints = resolveEndpoints(config);
+    const credentials = new StaticCredentials({
+        apiKey: process.env.BINANCE_API_KEY ?? '',
+        apiSecret: process.env.BINANCE_API_SECRET ?? '',
+    });
+
+    let mockServer: MockBinanceServer | undefined;
+    if (endpoints.environment === 'mock') {
+        mockServer = new MockBinanceServer();
+        await mockServer.start(options.mockPort);
+    }
+    const scheduler = new RequestScheduler();
+    const client = new BinanceApiClient(credentials, endpoints, scheduler, config, {
+        oneShot: true,
+    });
+
+    try {
+        await client.waitForConfiguration();
+        if (!client.isConfigured()) {
+            process.stderr.write(
+                'binance-balance: set BINANCE_API_KEY and BINANCE_API_SECRET\nTry --help.\n'
+            );
+            return 2;
+        }
+
+        const balance = await client.getTotalEstimatedBalance();
+        const assets = client.getWalletAssets();
+        const output = options.json
+            ? JSON.stringify(
+                  {
+                      environment: endpoints.environment,
+                      time: new Date().toISOString(),
+                      balance,
+                      assets,
+                  },
+                  null,
+                  2
+              )
+            : formatReport(balance, assets);
+        process.stdout.write(`${output}\n`);
+        return 0;
+    } catch (error) {
+        process.stderr.write(`binance-balance: ${toApiError(error).message}\n`);
+        return 1;
+    } finally {
+        client.dispose();
+        scheduler.dispose();
+        mockServer?.dispose();
+    }
+}
+
+main(process.argv.slice(2)).then(
+    (status) => {
+        process.exitCode = status;
+    },
+    (error) => {
+        process.stderr.write(`binance-balance: ${error}\n`);
+        process.exitCode = 1;
+    }
+);
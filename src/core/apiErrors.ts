@@ -0,0 +1,136 @@
+import axios from 'axios';
+
+/**
+ * What went wrong with a Binance request, grouped by what the user can do about it.
+ *
+ * - `invalidKey`: the key or secret is malformed or the signature is wrong (-2014, -1022)
+ * - `keyRejected`: Binance refused the key without saying why (-2015): it may be unknown or
+ *   deleted, restricted to trusted IPs other than this one, or lack a permission
+ * - `permissionDenied`: the key lacks a permission the endpoint needs (-1002, HTTP 401 on sapi)
+ * - `notEnabled`: the wallet has not been opened on the account, e.g. margin (-3003)
+ * - `rateLimited`: HTTP 429 or 418, see `RateLimitError`
+ * - `offline`: Binance could not be reached at all
+ * - `maintenance`: Binance answered with HTTP 5xx or a maintenance error
+ * - `unknown`: anything else
+ */
+export type ApiErrorKind =
+    | 'invalidKey'
+    | 'keyRejected'
+    | 'permissionDenied'
+    | 'notEnabled'
+    | 'rateLimited'
+    | 'offline'
+    | 'maintenance'
+    | 'unknown';
+
+/**
+ * A failed Binance request, classified by `toApiError`.
+ */
+export class BinanceApiError extends Error {
+    /**
+     * @param code - Binance error code from the response body, e.g. -2015
+     * @param status - HTTP status, absent when no response arrived
+     */
+    constructor(
+        readonly kind: ApiErrorKind,
+        message: string,
+        readonly code?: number,
+        readonly status?: number
+    ) {
+        super(message);
+        this.name = 'BinanceApiError';
+    }
+}
+
+/**
+ * Thrown when Binance rejects requests for exceeding its limits (HTTP 429) or has banned
+ * the IP (HTTP 418), and the request was not retried.
+ */
+export class RateLimitError extends BinanceApiError {
+    /**
+     * @param resumeAt - Time (ms since epoch) after which requests are sent again
+     */
+    constructor(
+        message: string,
+        readonly resumeAt: number,
+        status?: number
+    ) {
+        super('rateLimited', message, undefined, status);
+        this.name = 'RateLimitError';
+    }
+}
+
+/** Network failures that mean Binance is unreachable rather than failing */
+const OFFLINE_CODES = new Set([
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'ECONNREFUSED',
+    'ECONNRESET',
+    'ETIMEDOUT',
+    'ECONNABORTED',
+    'ENETUNREACH',
+    'ERR_NETWORK',
+]);
+
+/** Error codes of a margin account that has not been opened */
+const NOT_ENABLED_CODES = new Set([-3003, -11001]);
+
+/**
+ * Classify any error thrown while talking to Binance. Errors that are already
+ * classified are returned unchanged.
+ */
+export function toApiError(error: unknown): BinanceApiError {
+    if (error instanceof BinanceApiError) {
+        return error;
+    }
+    if (!axios.isAxiosError(error)) {
+        return new BinanceApiError(
+            'unknown',
+            error instanceof Error ? error.message : String(error)
+        );
+    }
+
+    const status = error.response?.status;
+    if (status === undefined) {
+        return new BinanceApiError(
+            error.code && OFFLINE_CODES.has(error.code) ? 'offline' : 'unknown',
+            `Cannot reach Binance: ${error.code ?? error.message}`
+        );
+    }
+
+    const body = error.response?.data as { code?: number; msg?: string } | undefined;
+    const code = typeof body?.code === 'number' ? body.code : undefined;
+    const message = body?.msg ? `${body.msg} (${code ?? `HTTP ${status}`})` : error.message;
+    const path = error.config?.url ? new URL(error.config.url).pathname : '';
+
+    return new BinanceApiError(classify(status, code, path), message, code, status);
+}
+
+function classify(status: number, code: number | undefined, path: string): ApiErrorKind {
+    if (code !== undefined && NOT_ENABLED_CODES.has(code)) {
+        return 'notEnabled';
+    }
+    if (code === -1002) {
+        return 'permissionDenied';
+    }
+    if (code === -2015) {
+        // "Invalid API-key, IP, or permissions for action". The spot account call only
+        // needs a valid key from an allowed IP, so the same error from a wallet endpoint
+        // means the key works but lacks that wallet's permission. On the spot account the
+        // message always names the request IP, so it cannot tell the three causes apart.
+        if (path !== '/api/v3/account') {
+            return 'permissionDenied';
+        }
+        return 'keyRejected';
+    }
+    if (code === -2014 || code === -2008 || code === -1022) {
+        return 'invalidKey';
+    }
+    if (status === 401) {
+        return path.startsWith('/sapi') ? 'permissionDenied' : 'invalidKey';
+    }
+    if (status >= 500 || code === -1016) {
+        return 'maintenance';
+    }
+    return 'unknown';
+}
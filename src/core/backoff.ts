@@ -0,0 +1,32 @@
+/**
+ * Exponential backoff with jitter for reconnect loops.
+ */
+export class ExponentialBackoff {
+    private attempt = 0;
+
+    /**
+     * @param initialDelay - Delay before the first retry in ms
+     * @param maxDelay - Upper bound for the delay in ms
+     */
+    constructor(
+        private readonly initialDelay = 1000,
+        private readonly maxDelay = 60000
+    ) {}
+
+    /**
+     * Delay for the next attempt: doubles on every call, capped at `maxDelay`,
+     * with up to 20% random jitter so several clients do not retry in lockstep.
+     */
+    next(): number {
+        const base = Math.min(this.initialDelay * 2 ** this.attempt, this.maxDelay);
+        this.attempt++;
+        return Math.round(base * (1 + Math.random() * 0.2));
+    }
+
+    /**
+     * Start over from `initialDelay`, typically after a successful connection.
+     */
+    reset() {
+        this.attempt = 0;
+    }
+}
@@ -0,0 +1,77 @@
+import { BalanceInfo } from './binanceApi';
+import { BalanceUpdateEvent, OutboundAccountPositionEvent } from './userDataStream';
+
+/**
+ * In-memory spot balances kept current by user data stream events.
+ * Seeded from a REST `/api/v3/account` snapshot and re-seeded by every consistency check
+ * and whenever the stream reconnects.
+ */
+export class SpotBalanceModel {
+    private balances: Map<string, BalanceInfo> = new Map();
+    /** Last account update time applied per asset, used to drop stale deltas */
+    private updateTimes: Map<string, number> = new Map();
+    private seeded = false;
+
+    /**
+     * Replace the model with a REST snapshot.
+     *
+     * @param balances - Spot balances from `/api/v3/account`
+     * @param updateTime - The snapshot's `updateTime`
+     */
+    reset(balances: BalanceInfo[], updateTime: number) {
+        this.balances = new Map(balances.map((balance) => [balance.asset, { ...balance }]));
+        this.updateTimes = new Map(balances.map((balance) => [balance.asset, updateTime]));
+        this.seeded = true;
+    }
+
+    isSeeded(): boolean {
+        return this.seeded;
+    }
+
+    /**
+     * Stop counting as seeded until the next `reset`, e.g. after events were missed.
+     */
+    invalidate() {
+        this.seeded = false;
+    }
+
+    /**
+     * Apply absolute balances from an `outboundAccountPosition` event.
+     */
+    applyAccountPosition(event: OutboundAccountPositionEvent) {
+        for (const position of event.B) {
+            if (event.u < (this.updateTimes.get(position.a) ?? 0)) {
+                continue;
+            }
+            this.balances.set(position.a, {
+                asset: position.a,
+                free: position.f,
+                locked: position.l,
+            });
+            this.updateTimes.set(position.a, event.u);
+        }
+    }
+
+    /**
+     * Apply a `balanceUpdate` delta unless a newer absolute position already covers it.
+     */
+    applyBalanceUpdate(event: BalanceUpdateEvent) {
+        if (event.T <= (this.updateTimes.get(event.a) ?? 0)) {
+            return;
+        }
+
+        const current = this.balances.get(event.a) ?? { asset: event.a, free: '0', locked: '0' };
+        const free = parseFloat(current.free) + parseFloat(event.d);
+        this.balances.set(event.a, { ...current, free: free.toString() });
+        this.updateTimes.set(event.a, event.T);
+    }
+
+    /**
+     * Non-zero balances in the same shape `getAccountBalance` returns.
+     */
+    getBalances(): BalanceInfo[] {
+        return [...this.balances.values()].filter(
+            (balance) => parseFloat(balance.free) > 0 || parseFloat(balance.locked) > 0
+        );
+    }
+}
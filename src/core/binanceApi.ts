@@ -0,0 +1,1471 @@
+import * as crypto from 'crypto';
+import { ApiErrorKind, BinanceApiError, toApiError } from './apiErrors';
+import { SpotBalanceModel } from './balanceModel';
+import { ConfigProvider, CredentialProvider, Disposable } from './config';
+import { Endpoints } from './endpoints';
+import { OpenOrderModel } from './orderModel';
+import { PriceStream, TickerUpdate } from './priceStream';
+import { PriceBook, QUOTE_ASSET, ResolvedPrice } from './pricing';
+import { RequestScheduler } from './requestScheduler';
+import { ServerClock } from './serverTime';
+import { UserDataEvent, UserDataStream } from './userDataStream';
+
+export interface BalanceInfo {
+    asset: string;
+    free: string;
+    locked: string;
+}
+
+export interface MarginBalanceInfo {
+    asset: string;
+    free: string;
+    locked: string;
+    borrowed: string;
+    interest: string;
+    netAsset: string;
+}
+
+export interface IsolatedMarginAsset {
+    symbol: string;
+    quoteAsset: {
+        asset: string;
+        free: string;
+        locked: string;
+        borrowed: string;
+        interest: string;
+        netAsset: string;
+    };
+    baseAsset: {
+        asset: string;
+        free: string;
+        locked: string;
+        borrowed: string;
+        interest: string;
+        netAsset: string;
+    };
+}
+
+export interface FuturesBalanceInfo {
+    asset: string;
+    walletBalance: string;
+    unrealizedProfit: string;
+    marginBalance: string;
+    availableBalance: string;
+}
+
+/**
+ * Raw balances of every wallet, as returned by the REST endpoints.
+ */
+export interface WalletBalances {
+    spot: BalanceInfo[];
+    margin: MarginBalanceInfo[];
+    isolatedMargin: IsolatedMarginAsset[];
+    usdmFutures: FuturesBalanceInfo[];
+    coinmFutures: FuturesBalanceInfo[];
+}
+
+/**
+ * Wallets that can be included in the total estimated balance.
+ */
+export type WalletType = 'spot' | 'margin' | 'isolatedMargin' | 'usdmFutures' | 'coinmFutures';
+
+export const ALL_WALLETS: readonly WalletType[] = [
+    'spot',
+    'margin',
+    'isolatedMargin',
+    'usdmFutures',
+    'coinmFutures',
+];
+
+/**
+ * Display names of the wallets, as used in the tooltip and detailed view.
+ */
+export const WALLET_LABELS: Record<WalletType, string> = {
+    spot: 'Spot',
+    margin: 'Cross Margin',
+    isolatedMargin: 'Isolated Margin',
+    usdmFutures: 'USDⓈ-M Futures',
+    coinmFutures: 'COIN-M Futures',
+};
+
+/**
+ * An asset held in a wallet for which no USDT price could be derived.
+ */
+export interface UnvaluedAsset {
+    asset: string;
+    wallet: WalletType;
+    /** Summed amount (net amount for margin, wallet balance plus PnL for futures) */
+    amount: number;
+}
+
+/**
+ * One asset of one wallet with its USDT value, as listed in the sidebar.
+ */
+export interface WalletAsset {
+    wallet: WalletType;
+    asset: string;
+    /** Isolated margin pair the asset belongs to, e.g. `BTCUSDT` */
+    symbol?: string;
+    free: number;
+    locked: number;
+    borrowed: number;
+    /** Futures unrealized PnL in the asset; 0 for other wallets */
+    unrealizedProfit: number;
+    /** Net amount: free plus locked for spot, net asset for margin, balance plus PnL for futures */
+    amount: number;
+    /** USDT price of the asset, or null when no price could be derived */
+    priceUSDT: number | null;
+    /** USDT value of `amount`, or null when no price could be derived */
+    valueUSDT: number | null;
+}
+
+/**
+ * An included wallet that could not be fetched and counts as empty, e.g. a margin
+ * account that was never opened.
+ */
+export interface UnavailableWallet {
+    wallet: WalletType;
+    /** `notEnabled`, `permissionDenied` or `unknown` */
+    kind: ApiErrorKind;
+    message: string;
+}
+
+/**
+ * Short reason shown in place of an unavailable wallet's balance, e.g. "not enabled".
+ */
+export function describeUnavailableWallet(entry: Pick<UnavailableWallet, 'kind'>): string {
+    switch (entry.kind) {
+        case 'notEnabled':
+            return 'not enabled';
+        case 'permissionDenied':
+            return 'no API permission';
+        default:
+            return 'unavailable';
+    }
+}
+
+export interface TotalEstimatedBalance {
+    /** Sum of the included wallets in USDT, futures unrealized PnL included */
+    totalUSDT: number;
+    spotUSDT: number;
+    marginUSDT: number;
+    isolatedMarginUSDT: number;
+    /** USDⓈ-M futures wallet balance in USDT */
+    futuresUSDT: number;
+    /** USDⓈ-M futures unrealized PnL in USDT */
+    futuresUnrealizedPnlUSDT: number;
+    /** COIN-M futures wallet balance converted to USDT */
+    coinFuturesUSDT: number;
+    /** COIN-M futures unrealized PnL converted to USDT */
+    coinFuturesUnrealizedPnlUSDT: number;
+    /** Wallets that were fetched and summed into `totalUSDT` */
+    includedWallets: WalletType[];
+    /** Held assets left out of the total because no price could be derived */
+    unvaluedAssets: UnvaluedAsset[];
+    /** Included wallets that could not be fetched; they report 0 */
+    unavailableWallets: UnavailableWallet[];
+}
+
+/**
+ * Everything a client shows after a refresh, in JSON-safe form, so one client can
+ * mirror another (e.g. in another VS Code window) without its own requests or streams.
+ */
+export interface ClientSnapshot {
+    balance: TotalEstimatedBalance;
+    wallets: WalletBalances;
+    /** Price cache entries, `[symbol, price]` */
+    prices: [string, number][];
+    /** Latest ticker per streamed symbol */
+    tickers: TickerUpdate[];
+    userDataStreamConnected: boolean;
+    /** When the balance was computed (ms since epoch) */
+    updatedAt: number;
+    /** Open orders of the wallets in `orderWallets` */
+    orders: OpenOrder[];
+    /** Wallets whose open orders have been loaded */
+    orderWallets: OrderWallet[];
+    /** Base and quote asset of the orders' symbols */
+    symbolAssets: Record<string, SymbolAssets>;
+}
+
+/**
+ * Wallets with spot-style orders and fills.
+ */
+export type OrderWallet = 'spot' | 'margin' | 'isolatedMargin';
+
+/**
+ * An order that is not yet completely filled or canceled.
+ */
+export interface OpenOrder {
+    wallet: OrderWallet;
+    symbol: string;
+    orderId: number;
+    side: 'BUY' | 'SELL';
+    /** Order type, e.g. `LIMIT` or `STOP_LOSS_LIMIT` */
+    type: string;
+    price: number;
+    /** 0 for orders without a trigger */
+    stopPrice: number;
+    origQty: number;
+    executedQty: number;
+    /** Creation time (ms since epoch) */
+    time: number;
+}
+
+/**
+ * How a `BinanceApiClient` runs.
+ */
+export interface ClientOptions {
+    /** Start as a mirror without streams; see `setMirrored` */
+    mirrored?: boolean;
+    /**
+     * Load prices over REST only, without the ticker stream or the periodic server time
+     * sync, e.g. for a single CLI run. A signed request rejected for its timestamp still
+     * syncs the clock.
+     */
+    oneShot?: boolean;
+}
+
+/**
+ * Base and quote asset of a spot symbol, e.g. ETHFI and USDT for `ETHFIUSDT`.
+ */
+export interface SymbolAssets {
+    baseAsset: string;
+    quoteAsset: string;
+}
+
+/**
+ * One fill of one of the account's orders.
+ */
+export interface AccountTrade {
+    wallet: OrderWallet;
+    symbol: string;
+    id: number;
+    orderId: number;
+    side: 'BUY' | 'SELL';
+    price: number;
+    qty: number;
+    quoteQty: number;
+    commission: number;
+    commissionAsset: string;
+    isMaker: boolean;
+    /** Execution time (ms since epoch) */
+    time: number;
+}
+
+interface RawOrder {
+    symbol: string;
+    orderId: number;
+    side: 'BUY' | 'SELL';
+    type: string;
+    price: string;
+    stopPrice: string;
+    origQty: string;
+    executedQty: string;
+    time: number;
+}
+
+interface RawTrade {
+    symbol: string;
+    id: number;
+    orderId: number;
+    price: string;
+    qty: string;
+    quoteQty?: string;
+    commission: string;
+    commissionAsset: string;
+    time: number;
+    isBuyer: boolean;
+    isMaker: boolean;
+}
+
+/** Request weights of the signed endpoints; see the Binance API docs */
+const REQUEST_WEIGHTS: Record<string, number> = {
+    '/api/v3/account': 20,
+    /** Without a symbol */
+    '/api/v3/openOrders': 80,
+    '/api/v3/myTrades': 20,
+    '/sapi/v1/margin/openOrders': 10,
+    '/sapi/v1/margin/myTrades': 10,
+    '/sapi/v1/margin/account': 10,
+    '/sapi/v1/margin/isolated/account': 10,
+    '/fapi/v2/account': 5,
+    '/dapi/v1/account': 5,
+};
+
+/**
+ * Binance error -1021: "Timestamp for this request is outside of the recvWindow".
+ */
+function isTimestampError(error: unknown): boolean {
+    return error instanceof BinanceApiError && error.code === -1021;
+}
+
+/**
+ * One entry per asset of every wallet, valued with the given prices.
+ */
+function toWalletAssets(
+    wallets: WalletBalances,
+    prices: ReadonlyMap<string, number>
+): WalletAsset[] {
+    const book = new PriceBook(prices);
+    const priced = (asset: string, amount: number) => {
+        const price = book.resolve(asset)?.price ?? null;
+        return { priceUSDT: price, valueUSDT: price !== null ? amount * price : null };
+    };
+    const assets: WalletAsset[] = [];
+
+    for (const balance of wallets.spot) {
+        const free = parseFloat(balance.free);
+        const locked = parseFloat(balance.locked);
+        assets.push({
+            wallet: 'spot',
+            asset: balance.asset,
+            free,
+            locked,
+            borrowed: 0,
+            unrealizedProfit: 0,
+            amount: free + locked,
+            ...priced(balance.asset, free + locked),
+        });
+    }
+
+    for (const balance of wallets.margin) {
+        const amount = parseFloat(balance.netAsset);
+        assets.push({
+            wallet: 'margin',
+            asset: balance.asset,
+            free: parseFloat(balance.free),
+            locked: parseFloat(balance.locked),
+            borrowed: parseFloat(balance.borrowed),
+            unrealizedProfit: 0,
+            amount,
+            ...priced(balance.asset, amount),
+        });
+    }
+
+    for (const pair of wallets.isolatedMargin) {
+        for (const side of [pair.baseAsset, pair.quoteAsset]) {
+            const amount = parseFloat(side.netAsset);
+            assets.push({
+                wallet: 'isolatedMargin',
+                asset: side.asset,
+                symbol: pair.symbol,
+                free: parseFloat(side.free),
+                locked: parseFloat(side.locked),
+                borrowed: parseFloat(side.borrowed),
+                unrealizedProfit: 0,
+                amount,
+                ...priced(side.asset, amount),
+            });
+        }
+    }
+
+    const futures: [WalletType, FuturesBalanceInfo[]][] = [
+        ['usdmFutures', wallets.usdmFutures],
+        ['coinmFutures', wallets.coinmFutures],
+    ];
+    for (const [wallet, balances] of futures) {
+        for (const balance of balances) {
+            const walletBalance = parseFloat(balance.walletBalance);
+            const available = parseFloat(balance.availableBalance);
+            const unrealizedProfit = parseFloat(balance.unrealizedProfit);
+            const amount = walletBalance + unrealizedProfit;
+            assets.push({
+                wallet,
+                asset: balance.asset,
+                free: available,
+                locked: Math.max(0, walletBalance - available),
+                borrowed: 0,
+                unrealizedProfit,
+                amount,
+                ...priced(balance.asset, amount),
+            });
+        }
+    }
+
+    return assets;
+}
+
+/** Placeholder credentials used against the bundled mock server */
+const MOCK_API_KEY = 'mock';
+
+export class BinanceApiClient {
+    private readonly baseUrl: string;
+    private readonly futuresBaseUrl: string;
+    private readonly coinFuturesBaseUrl: string;
+    private readonly wsBaseUrl: string;
+    private readonly streamUrl: string;
+    private apiKey: string = '';
+    private apiSecret: string = '';
+    private priceStream: PriceStream;
+    private serverClock: ServerClock;
+    private priceCache: Map<string, number> = new Map();
+    /** Latest ticker per symbol, from the ticker stream or `get24hrTickers` */
+    private tickerCache: Map<string, TickerUpdate> = new Map();
+    private pricesLoaded = false;
+    private walletCache: WalletBalances | null = null;
+    /** Wallets behind `lastBalance`, spot from the user data stream model when streaming */
+    private lastWallets: WalletBalances | null = null;
+    /** Why a wallet's last fetch failed, for wallets that are treated as empty */
+    private walletErrors: Map<WalletType, BinanceApiError> = new Map();
+    /** Base and quote asset per symbol with an order, from `/api/v3/exchangeInfo` */
+    private symbolAssets: Map<string, SymbolAssets> = new Map();
+    private orderModel = this.createOrderModel();
+    private lastFetchTime: number = 0;
+    private spotBalanceModel = new SpotBalanceModel();
+    private userDataStream: UserDataStream | null = null;
+    private userDataStreamApiKey: string = '';
+    private lastBalance: TotalEstimatedBalance | null = null;
+    /** State of an earlier session, shown until the first balance of this one */
+    private restored: ClientSnapshot | null = null;
+    private lastUpdateTime: number = 0;
+    private isInitialized: boolean = false;
+    /** Whether the client shows snapshots of another client instead of fetching */
+    private mirrored: boolean;
+    private readonly oneShot: boolean;
+    /** Balance of the last `applySnapshot`, served while mirrored */
+    private mirroredBalance: TotalEstimatedBalance | null = null;
+    private mirroredStreamConnected = false;
+    private onBalanceUpdateCallback?: (balance: TotalEstimatedBalance) => void;
+    private onCredentialsChangeCallback?: () => void;
+    private onTickerCallback?: (ticker: TickerUpdate) => void;
+    private onOrdersChangeCallback?: () => void;
+    private configurationLoaded: Promise<void>;
+    private credentialsListener: Disposable;
+
+    /**
+     * @param endpoints - Servers of the selected environment; fixed for the client's lifetime
+     * @param scheduler - Queue shared by every client, so weights add up per IP
+     * @param config - The `binanceBalance.*` settings
+     */
+    constructor(
+        private readonly credentials: CredentialProvider,
+        private readonly endpoints: Endpoints,
+        private readonly scheduler: RequestScheduler,
+        private readonly config: ConfigProvider,
+        options: ClientOptions = {}
+    ) {
+        this.mirrored = options.mirrored ?? false;
+        this.oneShot = options.oneShot ?? false;
+        this.baseUrl = endpoints.restBaseUrl;
+        this.futuresBaseUrl = endpoints.futuresBaseUrl;
+        this.coinFuturesBaseUrl = endpoints.coinFuturesBaseUrl;
+        this.wsBaseUrl = `${endpoints.wsBaseUrl}/ws/`;
+        this.streamUrl = `${endpoints.wsBaseUrl}/stream`;
+        this.configurationLoaded = this.loadConfiguration();
+        this.credentialsListener = this.credentials.onDidChange(async () => {
+            await this.refreshConfiguration();
+            this.onCredentialsChangeCallback?.();
+        });
+        this.priceStream = new PriceStream(this.streamUrl, this.mirrored || this.oneShot);
+        this.priceStream.onTicker((ticker) => this.handleTicker(ticker));
+        this.serverClock = new ServerClock(() => this.fetchServerTime());
+        if (!this.oneShot) {
+            this.serverClock.start();
+        }
+    }
+
+    private async fetchServerTime(): Promise<number> {
+        const url = `${this.baseUrl}/api/v3/time`;
+        const data = await this.scheduler.get<{ serverTime: number }>({
+            baseUrl: this.baseUrl,
+            path: '/api/v3/time',
+            weight: 1,
+            key: url,
+            prepare: () => ({ url }),
+        });
+        return data.serverTime;
+    }
+
+    private async loadConfiguration() {
+        try {
+            const { apiKey, apiSecret } = await this.credentials.get();
+            this.apiKey = apiKey;
+            this.apiSecret = apiSecret;
+            if (!this.isConfigured() && this.endpoints.environment === 'mock') {
+                // The mock server accepts any key, so it works without stored credentials
+                this.apiKey = MOCK_API_KEY;
+                this.apiSecret = MOCK_API_KEY;
+            }
+        } catch (error) {
+            console.error('Failed to read Binance credentials:', error);
+        }
+        this.syncUserDataStream();
+    }
+
+    /**
+     * Start the user data stream for the current API key, restart it when the key
+     * changed, or stop it when credentials are missing or `useUserDataStream` is disabled.
+     */
+    syncUserDataStream() {
+        const enabled =
+            this.isConfigured() &&
+            !this.mirrored &&
+            this.config.get<boolean>('useUserDataStream', true);
+
+        if (this.userDataStream && enabled && this.userDataStreamApiKey === this.apiKey) {
+            return;
+        }
+
+        if (this.userDataStream) {
+            this.userDataStream.dispose();
+            this.userDataStream = null;
+        }
+
+        if (!enabled) {
+            return;
+        }
+
+        this.userDataStreamApiKey = this.apiKey;
+
+        this.userDataStream = new UserDataStream({
+            restBaseUrl: this.baseUrl,
+            wsBaseUrl: this.wsBaseUrl,
+            apiKey: this.apiKey,
+            scheduler: this.scheduler,
+        });
+        this.userDataStream.onEvent((event) => this.handleUserDataEvent(event));
+        this.userDataStream.onStatusChange((connected) =>
+            this.handleUserDataStreamStatus(connected)
+        );
+        this.userDataStream.start();
+    }
+
+    /**
+     * Events sent while the stream was down are lost, so spot balances come from REST
+     * until a fresh `/api/v3/account` snapshot re-seeds the model after a reconnect.
+     */
+    private async handleUserDataStreamStatus(connected: boolean) {
+        this.spotBalanceModel.invalidate();
+        if (!connected || !this.isInitialized || !this.getIncludedWallets().includes('spot')) {
+            return;
+        }
+
+        try {
+            await this.getAccountBalance();
+            this.silentlyUpdateBalance(true);
+        } catch {
+            // Already logged; the next full refresh re-seeds the model
+        }
+    }
+
+    private handleUserDataEvent(event: UserDataEvent) {
+        if (event.e === 'executionReport') {
+            // The balance change follows as outboundAccountPosition
+            this.orderModel.applyExecutionReport(event);
+            this.onOrdersChangeCallback?.();
+            if (!this.symbolAssets.has(event.s)) {
+                this.loadSymbolAssets([event.s]).then(() => this.onOrdersChangeCallback?.());
+            }
+            return;
+        }
+        if (event.e === 'outboundAccountPosition') {
+            this.spotBalanceModel.applyAccountPosition(event);
+        } else {
+            this.spotBalanceModel.applyBalanceUpdate(event);
+        }
+        // Balance changes are pushed immediately, without the silent refresh throttle
+        this.silentlyUpdateBalance(true);
+    }
+
+    /**
+     * Whether spot balances are currently kept live by the user data stream.
+     */
+    isUserDataStreamConnected(): boolean {
+        if (this.mirrored) {
+            return this.mirroredStreamConnected;
+        }
+        return this.userDataStream?.isConnected() ?? false;
+    }
+
+    /**
+     * Switch between mirroring and live operation. A mirror closes its ticker and user
+     * data streams and serves the balance and orders of the last `applySnapshot`; going
+     * live reconnects them. Requests made on demand, such as fills, are always sent.
+     */
+    setMirrored(mirrored: boolean) {
+        if (mirrored === this.mirrored) {
+            return;
+        }
+        this.mirrored = mirrored;
+        if (mirrored) {
+            this.priceStream.pause();
+        } else {
+            this.mirroredBalance = null;
+            if (!this.oneShot) {
+                this.priceStream.resume();
+            }
+        }
+        this.syncUserDataStream();
+    }
+
+    isMirrored(): boolean {
+        return this.mirrored;
+    }
+
+    /**
+     * The state behind the last balance, for `applySnapshot` on a mirror.
+     * Null before the first `getTotalEstimatedBalance`.
+     */
+    getSnapshot(): ClientSnapshot | null {
+        if (!this.lastBalance || !this.lastWallets) {
+            return null;
+        }
+        return {
+            balance: this.lastBalance,
+            wallets: this.lastWallets,
+            prices: [...this.priceCache],
+            tickers: [...this.tickerCache.values()],
+            userDataStreamConnected: this.isUserDataStreamConnected(),
+            updatedAt: this.lastUpdateTime,
+            orders: this.orderModel.getOrders(),
+            orderWallets: this.orderModel.getLoadedWallets(),
+            symbolAssets: Object.fromEntries(this.symbolAssets),
+        };
+    }
+
+    /**
+     * Show the state of another client: replace balances, prices and open orders, replay
+     * changed tickers to `onTicker`, and report the balance to `onBalanceUpdate` and
+     * changed orders to `onOrdersChange`.
+     */
+    applySnapshot(snapshot: ClientSnapshot) {
+        this.priceCache = new Map(snapshot.prices);
+        this.pricesLoaded = true;
+        for (const ticker of snapshot.tickers) {
+            const previous = this.tickerCache.get(ticker.symbol);
+            this.tickerCache.set(ticker.symbol, ticker);
+            if (
+                previous?.lastPrice !== ticker.lastPrice ||
+                previous?.priceChangePercent !== ticker.priceChangePercent
+            ) {
+                this.onTickerCallback?.(ticker);
+            }
+        }
+
+        const previousOrders = JSON.stringify(this.orderModel.getOrders());
+        for (const [symbol, assets] of Object.entries(snapshot.symbolAssets)) {
+            this.symbolAssets.set(symbol, assets);
+        }
+        this.orderModel.resetOrders(snapshot.orderWallets, snapshot.orders);
+
+        this.walletCache = snapshot.wallets;
+        this.lastWallets = snapshot.wallets;
+        this.lastBalance = snapshot.balance;
+        this.mirroredBalance = snapshot.balance;
+        this.lastFetchTime = Date.now();
+        this.lastUpdateTime = snapshot.updatedAt;
+        this.isInitialized = true;
+        this.mirroredStreamConnected = snapshot.userDataStreamConnected;
+        this.onBalanceUpdateCallback?.(snapshot.balance);
+        if (JSON.stringify(this.orderModel.getOrders()) !== previousOrders) {
+            this.onOrdersChangeCallback?.();
+        }
+    }
+
+    /**
+     * Keep a saved state to show until the first fetch, e.g. from the previous session.
+     * It stays apart from the current state: `getLastBalance`, `getWalletAssets` and
+     * `getSnapshot` ignore it, see `getRestoredSnapshot`.
+     */
+    restoreSnapshot(snapshot: ClientSnapshot) {
+        this.restored = snapshot;
+    }
+
+    /**
+     * The state passed to `restoreSnapshot`, until a balance of this session replaces it.
+     */
+    getRestoredSnapshot(): ClientSnapshot | null {
+        return this.lastBalance ? null : this.restored;
+    }
+
+    /**
+     * Check that Binance can be reached with `/api/v3/ping`.
+     *
+     * @throws BinanceApiError, e.g. of kind `offline`
+     */
+    async ping(): Promise<void> {
+        const url = `${this.baseUrl}/api/v3/ping`;
+        await this.scheduler.get<object>({
+            baseUrl: this.baseUrl,
+            path: '/api/v3/ping',
+            weight: 1,
+            key: url,
+            prepare: () => ({ url }),
+        });
+    }
+
+    /**
+     * Resolve once the credentials have been read.
+     */
+    waitForConfiguration(): Promise<void> {
+        return this.configurationLoaded;
+    }
+
+    private handleTicker(ticker: TickerUpdate) {
+        this.priceCache.set(ticker.symbol, ticker.lastPrice);
+        this.tickerCache.set(ticker.symbol, ticker);
+        this.onTickerCallback?.(ticker);
+        this.silentlyUpdateBalance();
+    }
+
+    /**
+     * Keep the given symbols' prices live on the ticker stream, alongside the held assets.
+     *
+     * @param source - Name of the requester; a later call replaces its previous symbols
+     * @param symbols - Symbols such as `BTCUSDT`
+     */
+    trackSymbols(source: string, symbols: string[]) {
+        this.priceStream.setSymbols(source, symbols);
+    }
+
+    onBalanceUpdate(callback: (balance: TotalEstimatedBalance) => void) {
+        this.onBalanceUpdateCallback = callback;
+    }
+
+    /**
+     * Register a callback invoked for every ticker received on the price stream.
+     */
+    onTicker(callback: (ticker: TickerUpdate) => void) {
+        this.onTickerCallback = callback;
+    }
+
+    /**
+     * Register a callback invoked when open orders or fills changed, from REST or the stream.
+     */
+    onOrdersChange(callback: () => void) {
+        this.onOrdersChangeCallback = callback;
+    }
+
+    /**
+     * Register a callback invoked after stored credentials change and have been reloaded.
+     */
+    onCredentialsChange(callback: () => void) {
+        this.onCredentialsChangeCallback = callback;
+    }
+
+    private async silentlyUpdateBalance(immediate = false) {
+        // Get silent refresh interval from config
+        const silentRefreshInterval = this.config.get<number>('silentRefreshInterval', 5000);
+
+        // Only update if we have initial data and enough time has passed since last update
+        if (
+            !this.isInitialized ||
+            (!immediate && Date.now() - this.lastUpdateTime < silentRefreshInterval)
+        ) {
+            return;
+        }
+
+        try {
+            const newBalance = await this.getTotalEstimatedBalance(true); // true = use cache when possible
+            if (this.onBalanceUpdateCallback && newBalance) {
+                this.onBalanceUpdateCallback(newBalance);
+            }
+        } catch (error) {
+            // Silently handle errors in background updates
+            console.warn('Silent balance update failed:', error);
+        }
+    }
+
+    private createSignature(queryString: string): string {
+        return crypto.createHmac('sha256', this.apiSecret).update(queryString).digest('hex');
+    }
+
+    private async makeRequest(
+        endpoint: string,
+        params: Record<string, any> = {},
+        baseUrl = this.baseUrl
+    ): Promise<any> {
+        if (!this.apiKey || !this.apiSecret) {
+            throw new Error('API credentials not configured');
+        }
+
+        try {
+            return await this.sendSignedRequest(endpoint, params, baseUrl);
+        } catch (error) {
+            if (!isTimestampError(error)) {
+                throw error;
+            }
+            // The local clock drifted since the last sync: resync and retry once
+            console.warn('Timestamp outside of recvWindow, resyncing server time');
+            await this.serverClock.sync();
+            return this.sendSignedRequest(endpoint, params, baseUrl);
+        }
+    }
+
+    private sendSignedRequest(
+        endpoint: string,
+        params: Record<string, string>,
+        baseUrl: string
+    ): Promise<unknown> {
+        const recvWindow = this.config.get<number>('recvWindow', 5000);
+        const query = new URLSearchParams(params).toString();
+
+        return this.scheduler.get({
+            baseUrl,
+            path: endpoint,
+            weight: REQUEST_WEIGHTS[endpoint] ?? 1,
+            // Different accounts never share a response
+            key: `${baseUrl}${endpoint}?${query} ${this.apiKey}`,
+            prepare: () => {
+                const queryString = new URLSearchParams({
+                    ...params,
+                    recvWindow: recvWindow.toString(),
+                    timestamp: this.serverClock.now().toString(),
+                }).toString();
+                const signature = this.createSignature(queryString);
+                return {
+                    url: `${baseUrl}${endpoint}?${queryString}&signature=${signature}`,
+                    headers: { 'X-MBX-APIKEY': this.apiKey },
+                };
+            },
+        });
+    }
+
+    async getAccountBalance(): Promise<BalanceInfo[]> {
+        try {
+            const data = await this.makeRequest('/api/v3/account');
+            const balances = data.balances.filter(
+                (balance: BalanceInfo) =>
+                    parseFloat(balance.free) > 0 || parseFloat(balance.locked) > 0
+            );
+            this.spotBalanceModel.reset(balances, data.updateTime ?? Date.now());
+            return balances;
+        } catch (error) {
+            console.error('Failed to fetch balance:', error);
+            throw error;
+        }
+    }
+
+    async getMarginAccountBalance(): Promise<MarginBalanceInfo[]> {
+        try {
+            const data = await this.makeRequest('/sapi/v1/margin/account');
+            this.walletErrors.delete('margin');
+            return data.userAssets.filter(
+                (balance: MarginBalanceInfo) => parseFloat(balance.netAsset) !== 0
+            );
+        } catch (error) {
+            console.error('Failed to fetch margin balance:', error);
+            return this.handleWalletError('margin', error);
+        }
+    }
+
+    async getIsolatedMarginAccountBalance(): Promise<IsolatedMarginAsset[]> {
+        try {
+            const data = await this.makeRequest('/sapi/v1/margin/isolated/account');
+            this.walletErrors.delete('isolatedMargin');
+            return data.assets.filter(
+                (asset: IsolatedMarginAsset) =>
+                    parseFloat(asset.baseAsset.netAsset) !== 0 ||
+                    parseFloat(asset.quoteAsset.netAsset) !== 0
+            );
+        } catch (error) {
+            console.error('Failed to fetch isolated margin balance:', error);
+            return this.handleWalletError('isolatedMargin', error);
+        }
+    }
+
+    async getFuturesAccountBalance(): Promise<FuturesBalanceInfo[]> {
+        try {
+            const data = await this.makeRequest('/fapi/v2/account', {}, this.futuresBaseUrl);
+            this.walletErrors.delete('usdmFutures');
+            return data.assets.filter(
+                (balance: FuturesBalanceInfo) =>
+                    parseFloat(balance.walletBalance) !== 0 ||
+                    parseFloat(balance.unrealizedProfit) !== 0
+            );
+        } catch (error) {
+            console.error('Failed to fetch USDⓈ-M futures balance:', error);
+            return this.handleWalletError('usdmFutures', error);
+        }
+    }
+
+    async getCoinFuturesAccountBalance(): Promise<FuturesBalanceInfo[]> {
+        try {
+            const data = await this.makeRequest('/dapi/v1/account', {}, this.coinFuturesBaseUrl);
+            this.walletErrors.delete('coinmFutures');
+            return data.assets.filter(
+                (balance: FuturesBalanceInfo) =>
+                    parseFloat(balance.walletBalance) !== 0 ||
+                    parseFloat(balance.unrealizedProfit) !== 0
+            );
+        } catch (error) {
+            console.error('Failed to fetch COIN-M futures balance:', error);
+            return this.handleWalletError('coinmFutures', error);
+        }
+    }
+
+    /**
+     * Treat a wallet that is not opened or not permitted for this key as empty and remember
+     * why, so it is reported instead of showing as a zero balance. Failures that affect
+     * every request (invalid key, offline, rate limited, ...) are rethrown.
+     */
+    private handleWalletError(wallet: WalletType, error: unknown): [] {
+        const apiError = toApiError(error);
+        if (!['notEnabled', 'permissionDenied', 'unknown'].includes(apiError.kind)) {
+            throw apiError;
+        }
+        this.walletErrors.set(wallet, apiError);
+        return [];
+    }
+
+    /**
+     * Wallets that count toward `totalUSDT`, from the `includedWallets` setting.
+     */
+    getIncludedWallets(): WalletType[] {
+        return this.config.get<WalletType[]>('includedWallets', [...ALL_WALLETS]);
+    }
+
+    /**
+     * Load every spot ticker price in a single `/api/v3/ticker/price` request.
+     */
+    async refreshAllPrices(): Promise<void> {
+        const url = `${this.baseUrl}/api/v3/ticker/price`;
+        const tickers = await this.scheduler.get<{ symbol: string; price: string }[]>({
+            baseUrl: this.baseUrl,
+            path: '/api/v3/ticker/price',
+            weight: 4,
+            key: url,
+            prepare: () => ({ url }),
+        });
+        for (const ticker of tickers) {
+            this.priceCache.set(ticker.symbol, parseFloat(ticker.price));
+        }
+        this.pricesLoaded = true;
+    }
+
+    /**
+     * Value raw wallet balances in USDT with the current price cache.
+     *
+     * @returns The valuation and the symbols it used, for the ticker subscription
+     */
+    private valueWallets(
+        wallets: WalletBalances,
+        included: WalletType[]
+    ): { balance: TotalEstimatedBalance; symbols: Set<string> } {
+        const book = new PriceBook(this.priceCache);
+        const symbols = new Set<string>();
+        const unvalued: Map<string, UnvaluedAsset> = new Map();
+
+        const toUSDT = (asset: string, amount: number, wallet: WalletType): number => {
+            if (amount === 0) {
+                return 0;
+            }
+
+            const resolved = book.resolve(asset);
+            if (!resolved) {
+                const key = `${wallet}:${asset}`;
+                const entry = unvalued.get(key) ?? { asset, wallet, amount: 0 };
+                entry.amount += amount;
+                unvalued.set(key, entry);
+                return 0;
+            }
+
+            resolved.symbols.forEach((symbol) => symbols.add(symbol));
+            return amount * resolved.price;
+        };
+
+        let spotUSDT = 0;
+        let marginUSDT = 0;
+        let isolatedMarginUSDT = 0;
+        let futuresUSDT = 0;
+        let futuresUnrealizedPnlUSDT = 0;
+        let coinFuturesUSDT = 0;
+        let coinFuturesUnrealizedPnlUSDT = 0;
+
+        // Calculate spot balance
+        for (const balance of wallets.spot) {
+            const totalAmount = parseFloat(balance.free) + parseFloat(balance.locked);
+            spotUSDT += toUSDT(balance.asset, totalAmount, 'spot');
+        }
+
+        // Calculate cross margin balance
+        for (const balance of wallets.margin) {
+            marginUSDT += toUSDT(balance.asset, parseFloat(balance.netAsset), 'margin');
+        }
+
+        // Calculate isolated margin balance (base and quote asset of each pair)
+        for (const asset of wallets.isolatedMargin) {
+            for (const side of [asset.baseAsset, asset.quoteAsset]) {
+                isolatedMarginUSDT += toUSDT(
+                    side.asset,
+                    parseFloat(side.netAsset),
+                    'isolatedMargin'
+                );
+            }
+        }
+
+        // USDⓈ-M futures can hold several margin assets (USDT, USDC, BNB, ...)
+        for (const balance of wallets.usdmFutures) {
+            futuresUSDT += toUSDT(balance.asset, parseFloat(balance.walletBalance), 'usdmFutures');
+            futuresUnrealizedPnlUSDT += toUSDT(
+                balance.asset,
+                parseFloat(balance.unrealizedProfit),
+                'usdmFutures'
+            );
+        }
+
+        // COIN-M futures balances and PnL are denominated in the margin coin
+        for (const balance of wallets.coinmFutures) {
+            coinFuturesUSDT += toUSDT(
+                balance.asset,
+                parseFloat(balance.walletBalance),
+                'coinmFutures'
+            );
+            coinFuturesUnrealizedPnlUSDT += toUSDT(
+                balance.asset,
+                parseFloat(balance.unrealizedProfit),
+                'coinmFutures'
+            );
+        }
+
+        const balance = {
+            totalUSDT:
+                spotUSDT +
+                marginUSDT +
+                isolatedMarginUSDT +
+                futuresUSDT +
+                futuresUnrealizedPnlUSDT +
+                coinFuturesUSDT +
+                coinFuturesUnrealizedPnlUSDT,
+            spotUSDT,
+            marginUSDT,
+            isolatedMarginUSDT,
+            futuresUSDT,
+            futuresUnrealizedPnlUSDT,
+            coinFuturesUSDT,
+            coinFuturesUnrealizedPnlUSDT,
+            includedWallets: included,
+            unvaluedAssets: [...unvalued.values()],
+            unavailableWallets: included.flatMap((wallet) => {
+                const error = this.walletErrors.get(wallet);
+                return error ? [{ wallet, kind: error.kind, message: error.message }] : [];
+            }),
+        };
+
+        return { balance, symbols };
+    }
+
+    /**
+     * Fetch every included wallet over REST and re-seed the spot balance model.
+     */
+    private async fetchWalletBalances(included: WalletType[]): Promise<WalletBalances> {
+        const fetchIf = <T>(wallet: WalletType, fetch: () => Promise<T[]>): Promise<T[]> =>
+            included.includes(wallet) ? fetch() : Promise.resolve([]);
+
+        const [spot, margin, isolatedMargin, usdmFutures, coinmFutures] = await Promise.all([
+            fetchIf('spot', () => this.getAccountBalance()),
+            fetchIf('margin', () => this.getMarginAccountBalance()),
+            fetchIf('isolatedMargin', () => this.getIsolatedMarginAccountBalance()),
+            fetchIf('usdmFutures', () => this.getFuturesAccountBalance()),
+            fetchIf('coinmFutures', () => this.getCoinFuturesAccountBalance()),
+        ]);
+
+        return { spot, margin, isolatedMargin, usdmFutures, coinmFutures };
+    }
+
+    /**
+     * Calculate total wallet balance across the wallets selected in `includedWallets`.
+     * Wallets that are not selected are not fetched and report 0.
+     *
+     * Every asset is valued from one batched ticker snapshot (see `PriceBook`); assets
+     * without any usable pair are listed in `unvaluedAssets` instead of being dropped.
+     *
+     * With `useCache`, wallet balances from the last REST fetch are reused: spot comes
+     * from the user data stream model while it is connected, otherwise the cached
+     * wallets are reused for up to 30 seconds.
+     *
+     * A mirror returns the balance of its last snapshot, or fetches one itself when it
+     * has none yet. Configuration changes keep that snapshot, see `refreshConfiguration`.
+     *
+     * @param useCache - Whether to use cached balance and price data
+     * @returns Total estimated balance in USDT with a per-wallet breakdown
+     */
+    async getTotalEstimatedBalance(useCache = false): Promise<TotalEstimatedBalance> {
+        if (this.mirrored && this.mirroredBalance) {
+            return this.mirroredBalance;
+        }
+
+        try {
+            const included = this.getIncludedWallets();
+            const streaming = this.isUserDataStreamConnected() && this.spotBalanceModel.isSeeded();
+            let wallets: WalletBalances;
+
+            if (
+                useCache &&
+                this.walletCache &&
+                (streaming || Date.now() - this.lastFetchTime < 30000)
+            ) {
+                wallets = streaming
+                    ? { ...this.walletCache, spot: this.spotBalanceModel.getBalances() }
+                    : this.walletCache;
+            } else {
+                const [fetched] = await Promise.all([
+                    this.fetchWalletBalances(included),
+                    this.refreshAllPrices(),
+                ]);
+                wallets = fetched;
+                this.walletCache = wallets;
+                this.lastFetchTime = Date.now();
+            }
+
+            if (!this.pricesLoaded) {
+                await this.refreshAllPrices();
+            }
+
+            const { balance, symbols } = this.valueWallets(wallets, included);
+
+            // Follow the held assets on the ticker stream
+            this.priceStream.setSymbols('holdings', [...symbols]);
+
+            // Mark as initialized
+            this.lastWallets = wallets;
+            this.lastBalance = balance;
+            this.lastUpdateTime = Date.now();
+            this.isInitialized = true;
+
+            return balance;
+        } catch (error) {
+            console.error('Failed to calculate total estimated balance:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * The most recent result of `getTotalEstimatedBalance`, or null before the first one.
+     */
+    getLastBalance(): TotalEstimatedBalance | null {
+        return this.lastBalance;
+    }
+
+    /**
+     * Per-asset breakdown of the wallets behind the last balance, valued with the current
+     * price cache. Empty before the first `getTotalEstimatedBalance`.
+     */
+    getWalletAssets(): WalletAsset[] {
+        return this.lastWallets ? toWalletAssets(this.lastWallets, this.priceCache) : [];
+    }
+
+    /**
+     * Per-asset breakdown of the restored snapshot, valued with its prices. Empty without
+     * one, see `getRestoredSnapshot`.
+     */
+    getRestoredWalletAssets(): WalletAsset[] {
+        const restored = this.getRestoredSnapshot();
+        return restored ? toWalletAssets(restored.wallets, new Map(restored.prices)) : [];
+    }
+
+    /**
+     * USDT price of an asset from the current price cache, without a request.
+     * Null when no price can be derived or no prices have been loaded yet.
+     */
+    resolvePrice(asset: string): ResolvedPrice | null {
+        return new PriceBook(this.priceCache).resolve(asset);
+    }
+
+    /**
+     * Whether a spot symbol is listed, from the price cache. False before prices are loaded.
+     */
+    hasSymbol(symbol: string): boolean {
+        return this.priceCache.has(symbol);
+    }
+
+    /**
+     * 24h price change of an asset against USDT in percent, from the ticker stream.
+     * Null until a ticker of its `<asset>USDT` pair has arrived.
+     */
+    getPriceChangePercent(asset: string): number | null {
+        if (asset === QUOTE_ASSET) {
+            return 0;
+        }
+        return this.tickerCache.get(`${asset}${QUOTE_ASSET}`)?.priceChangePercent ?? null;
+    }
+
+    // Keep the old function for backward compatibility
+    async getTotalBalanceInUSDT(): Promise<number> {
+        const estimated = await this.getTotalEstimatedBalance();
+        return estimated.totalUSDT;
+    }
+
+    async getPrice(symbol: string, useCache = false): Promise<number> {
+        try {
+            // Check cache first if requested
+            if (useCache && this.priceCache.has(symbol.toUpperCase())) {
+                return this.priceCache.get(symbol.toUpperCase())!;
+            }
+
+            const url = `${this.baseUrl}/api/v3/ticker/price?symbol=${symbol}`;
+            const data = await this.scheduler.get<{ price: string }>({
+                baseUrl: this.baseUrl,
+                path: '/api/v3/ticker/price',
+                weight: 2,
+                key: url,
+                prepare: () => ({ url }),
+            });
+            const price = parseFloat(data.price);
+
+            // Cache the price
+            this.priceCache.set(symbol.toUpperCase(), price);
+
+            return price;
+        } catch (error) {
+            console.error(`Failed to get price for ${symbol}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * 24h rolling statistics of the given symbols from `/api/v3/ticker/24hr`.
+     *
+     * @throws BinanceApiError when any symbol does not exist (-1121)
+     */
+    async get24hrTickers(symbols: string[]): Promise<TickerUpdate[]> {
+        if (symbols.length === 0) {
+            return [];
+        }
+
+        const query = new URLSearchParams({ symbols: JSON.stringify(symbols) }).toString();
+        const url = `${this.baseUrl}/api/v3/ticker/24hr?${query}`;
+        const tickers = await this.scheduler.get<
+            {
+                symbol: string;
+                lastPrice: string;
+                priceChangePercent: string;
+                highPrice: string;
+                lowPrice: string;
+                volume: string;
+                quoteVolume: string;
+            }[]
+        >({
+            baseUrl: this.baseUrl,
+            path: '/api/v3/ticker/24hr',
+            weight: symbols.length <= 20 ? 2 : 40,
+            key: url,
+            prepare: () => ({ url }),
+        });
+
+        return tickers.map((ticker) => {
+            const update: TickerUpdate = {
+                symbol: ticker.symbol,
+                lastPrice: parseFloat(ticker.lastPrice),
+                priceChangePercent: parseFloat(ticker.priceChangePercent),
+                highPrice: parseFloat(ticker.highPrice),
+                lowPrice: parseFloat(ticker.lowPrice),
+                volume: parseFloat(ticker.volume),
+                quoteVolume: parseFloat(ticker.quoteVolume),
+            };
+            this.priceCache.set(update.symbol, update.lastPrice);
+            this.tickerCache.set(update.symbol, update);
+            return update;
+        });
+    }
+
+    /**
+     * Reload open orders over REST. Spot orders are skipped while the user data stream
+     * keeps them current, unless `full` is set; margin orders are not on that stream.
+     * Isolated margin orders are read for the pairs of the last balance.
+     */
+    async refreshOpenOrders(full = false): Promise<void> {
+        const included = this.getIncludedWallets();
+        const streaming = this.isUserDataStreamConnected() && this.orderModel.isLoaded('spot');
+        const isolatedSymbols = (this.lastWallets?.isolatedMargin ?? []).map(
+            (asset) => asset.symbol
+        );
+
+        const requests: [OrderWallet, Promise<OpenOrder[]>][] = [];
+        if (full || !streaming) {
+            requests.push(['spot', this.fetchOpenOrders('spot', '/api/v3/openOrders')]);
+        }
+        if (included.includes('margin')) {
+            requests.push(['margin', this.fetchOpenOrders('margin', '/sapi/v1/margin/openOrders')]);
+        }
+        if (included.includes('isolatedMargin')) {
+            requests.push([
+                'isolatedMargin',
+                Promise.all(
+                    isolatedSymbols.map((symbol) =>
+                        this.fetchOpenOrders('isolatedMargin', '/sapi/v1/margin/openOrders', {
+                            symbol,
+                            isIsolated: 'TRUE',
+                        })
+                    )
+                ).then((orders) => orders.flat()),
+            ]);
+        }
+
+        const results = await Promise.all(requests.map(([, request]) => request));
+        const orders = results.flat();
+        await this.loadSymbolAssets(orders.map((order) => order.symbol));
+        this.orderModel.resetOrders(
+            requests.map(([wallet]) => wallet),
+            orders
+        );
+        this.onOrdersChangeCallback?.();
+    }
+
+    private createOrderModel(): OpenOrderModel {
+        return new OpenOrderModel((symbol) => this.symbolAssets.get(symbol));
+    }
+
+    /**
+     * Look up the base and quote asset of symbols not seen yet in `/api/v3/exchangeInfo`.
+     * On failure their orders lock no asset until the next attempt.
+     */
+    private async loadSymbolAssets(symbols: string[]): Promise<void> {
+        const missing = [...new Set(symbols)].filter((symbol) => !this.symbolAssets.has(symbol));
+        if (missing.length === 0) {
+            return;
+        }
+
+        const query = new URLSearchParams({ symbols: JSON.stringify(missing.sort()) }).toString();
+        const url = `${this.baseUrl}/api/v3/exchangeInfo?${query}`;
+        try {
+            const data = await this.scheduler.get<{
+                symbols: { symbol: string; baseAsset: string; quoteAsset: string }[];
+            }>({
+                baseUrl: this.baseUrl,
+                path: '/api/v3/exchangeInfo',
+                weight: 20,
+                key: url,
+                prepare: () => ({ url }),
+            });
+            for (const { symbol, baseAsset, quoteAsset } of data.symbols) {
+                this.symbolAssets.set(symbol, { baseAsset, quoteAsset });
+            }
+        } catch (error) {
+            console.warn('Failed to load the assets of order symbols:', error);
+        }
+    }
+
+    private async fetchOpenOrders(
+        wallet: OrderWallet,
+        endpoint: string,
+        params: Record<string, string> = {}
+    ): Promise<OpenOrder[]> {
+        try {
+            const data: RawOrder[] = await this.makeRequest(endpoint, params);
+            return data.map((order) => ({
+                wallet,
+                symbol: order.symbol,
+                orderId: order.orderId,
+                side: order.side,
+                type: order.type,
+                price: parseFloat(order.price),
+                stopPrice: parseFloat(order.stopPrice ?? '0'),
+                origQty: parseFloat(order.origQty),
+                executedQty: parseFloat(order.executedQty),
+                time: order.time,
+            }));
+        } catch (error) {
+            return this.handleOrderWalletError(wallet, error);
+        }
+    }
+
+    /**
+     * Load the latest fills of a symbol over REST.
+     *
+     * @param limit - Number of fills, at most 1000
+     */
+    async refreshTrades(wallet: OrderWallet, symbol: string, limit = 20): Promise<void> {
+        const trades = await this.fetchTrades(wallet, symbol, { limit });
+        this.orderModel.setTrades(wallet, symbol, trades);
+        this.onOrdersChangeCallback?.();
+    }
+
+    /**
+     * Fills of a symbol, oldest first: the latest ones, or with `fromId` those from that
+     * trade id on. Empty when a margin account is not enabled.
+     *
+     * @param options.limit - Number of fills, at most 1000
+     */
+    async fetchTrades(
+        wallet: OrderWallet,
+        symbol: string,
+        options: { fromId?: number; limit?: number } = {}
+    ): Promise<AccountTrade[]> {
+        const endpoint = wallet === 'spot' ? '/api/v3/myTrades' : '/sapi/v1/margin/myTrades';
+        const params: Record<string, string> = {
+            symbol,
+            limit: (options.limit ?? 500).toString(),
+        };
+        if (options.fromId !== undefined) {
+            params.fromId = options.fromId.toString();
+        }
+        if (wallet === 'isolatedMargin') {
+            params.isIsolated = 'TRUE';
+        }
+
+        try {
+            const data: RawTrade[] = await this.makeRequest(endpoint, params);
+            return data.map((trade) => ({
+                wallet,
+                symbol: trade.symbol,
+                id: trade.id,
+                orderId: trade.orderId,
+                side: trade.isBuyer ? 'BUY' : 'SELL',
+                price: parseFloat(trade.price),
+                qty: parseFloat(trade.qty),
+                quoteQty: trade.quoteQty
+                    ? parseFloat(trade.quoteQty)
+                    : parseFloat(trade.price) * parseFloat(trade.qty),
+                commission: parseFloat(trade.commission),
+                commissionAsset: trade.commissionAsset,
+                isMaker: trade.isMaker,
+                time: trade.time,
+            }));
+        } catch (error) {
+            return this.handleOrderWalletError(wallet, error);
+        }
+    }
+
+    /**
+     * A margin account that is not opened or permitted simply has no orders.
+     */
+    private handleOrderWalletError(wallet: OrderWallet, error: unknown): [] {
+        const apiError = toApiError(error);
+        if (wallet === 'spot' || !['notEnabled', 'permissionDenied'].includes(apiError.kind)) {
+            throw apiError;
+        }
+        return [];
+    }
+
+    /**
+     * Open orders and fills loaded so far; see `refreshOpenOrders` and `refreshTrades`.
+     */
+    getOrderModel(): OpenOrderModel {
+        return this.orderModel;
+    }
+
+    /**
+     * Reload the credentials and drop everything loaded with the previous ones. A mirror
+     * keeps its snapshot, since the window it comes from reloads and publishes a new one.
+     */
+    refreshConfiguration(): Promise<void> {
+        this.configurationLoaded = this.loadConfiguration();
+        if (this.mirrored) {
+            return this.configurationLoaded;
+        }
+        // Reset last update time to immediately apply new silent refresh interval
+        this.lastUpdateTime = 0;
+        this.walletCache = null;
+        this.lastWallets = null;
+        this.walletErrors.clear();
+        this.lastBalance = null;
+        this.orderModel = this.createOrderModel();
+        return this.configurationLoaded;
+    }
+
+    dispose() {
+        this.credentialsListener.dispose();
+        this.serverClock.dispose();
+        if (this.userDataStream) {
+            this.userDataStream.dispose();
+            this.userDataStream = null;
+        }
+        this.priceStream.dispose();
+    }
+
+    isConfigured(): boolean {
+        return this.apiKey.length > 0 && this.apiSecret.length > 0;
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Anything that can be released, e.g. an event subscription. Compatible with
+ * `vscode.Disposable`.
+ */
+export interface Disposable {
+    dispose(): void;
+}
+
+/**
+ * Binance API key pair.
+ */
+export interface Credentials {
+    apiKey: string;
+    apiSecret: string;
+}
+
+/**
+ * Read access to the `binanceBalance.*` settings, by their name without the prefix,
+ * e.g. `includedWallets`. The extension reads VS Code's configuration, the CLI its flags.
+ */
+export interface ConfigProvider {
+    get<T>(key: string, defaultValue: T): T;
+}
+
+/**
+ * Source of one account's API key pair.
+ */
+export interface CredentialProvider {
+    /** The key pair; missing values are empty strings */
+    get(): Promise<Credentials>;
+    /** Register a listener that fires when the key pair changes */
+    onDidChange(listener: () => void): Disposable;
+}
+
+/**
+ * Settings from a fixed set of values; missing ones use the default.
+ */
+export class StaticConfig implements ConfigProvider {
+    constructor(private readonly values: Record<string, unknown>) {}
+
+    get<T>(key: string, defaultValue: T): T {
+        return key in this.values ? (this.values[key] as T) : defaultValue;
+    }
+}
+
+/**
+ * A key pair that never changes, e.g. from environment variables.
+ */
+export class StaticCredentials implements CredentialProvider {
+    constructor(private readonly credentials: Credentials) {}
+
+    async get(): Promise<Credentials> {
+        return this.credentials;
+    }
+
+    onDidChange(): Disposable {
+        return { dispose: () => undefined };
+    }
+}
@@ -0,0 +1,97 @@
+import { ConfigProvider } from './config';
+
+/**
+ * Binance deployment the extension talks to.
+ *
+ * - `mainnet`: binance.com
+ * - `testnet`: Spot Testnet and Futures Testnet (no margin endpoints)
+ * - `custom`: URLs from the `custom*Url` settings, e.g. binance.us or a proxy
+ * - `mock`: the bundled local mock server (see `mockServer.ts`)
+ */
+export type BinanceEnvironment = 'mainnet' | 'testnet' | 'custom' | 'mock';
+
+/**
+ * REST and WebSocket base URLs of one environment, without trailing slashes.
+ */
+export interface Endpoints {
+    environment: BinanceEnvironment;
+    /** Spot and margin REST API, e.g. `https://api.binance.com` */
+    restBaseUrl: string;
+    /** USDⓈ-M futures REST API */
+    futuresBaseUrl: string;
+    /** COIN-M futures REST API */
+    coinFuturesBaseUrl: string;
+    /** WebSocket host; raw streams live under `/ws/`, combined streams under `/stream` */
+    wsBaseUrl: string;
+}
+
+const PRESETS: Record<'mainnet' | 'testnet', Omit<Endpoints, 'environment'>> = {
+    mainnet: {
+        restBaseUrl: 'https://api.binance.com',
+        futuresBaseUrl: 'https://fapi.binance.com',
+        coinFuturesBaseUrl: 'https://dapi.binance.com',
+        wsBaseUrl: 'wss://stream.binance.com:9443',
+    },
+    testnet: {
+        restBaseUrl: 'https://testnet.binance.vision',
+        futuresBaseUrl: 'https://testnet.binancefuture.com',
+        coinFuturesBaseUrl: 'https://testnet.binancefuture.com',
+        wsBaseUrl: 'wss://stream.testnet.binance.vision',
+    },
+};
+
+/** Default port of the bundled mock server */
+export const DEFAULT_MOCK_SERVER_PORT = 18080;
+
+/**
+ * Endpoints of the environment selected in the `environment` setting.
+ * Custom URLs that are left empty fall back to mainnet.
+ */
+export function resolveEndpoints(config: ConfigProvider): Endpoints {
+    const environment = config.get<BinanceEnvironment>('environment', 'mainnet');
+
+    switch (environment) {
+        case 'testnet':
+            return { environment, ...PRESETS.testnet };
+        case 'mock': {
+            const port = config.get<number>('mockServerPort', DEFAULT_MOCK_SERVER_PORT);
+            return {
+                environment,
+                restBaseUrl: `http://127.0.0.1:${port}`,
+                futuresBaseUrl: `http://127.0.0.1:${port}`,
+                coinFuturesBaseUrl: `http://127.0.0.1:${port}`,
+                wsBaseUrl: `ws://127.0.0.1:${port}`,
+            };
+        }
+        case 'custom': {
+            const url = (key: string, fallback: string) =>
+                trimSlash(config.get<string>(key, '').trim()) || fallback;
+            return {
+                environment,
+                restBaseUrl: url('customRestUrl', PRESETS.mainnet.restBaseUrl),
+                futuresBaseUrl: url('customFuturesUrl', PRESETS.mainnet.futuresBaseUrl),
+                coinFuturesBaseUrl: url('customCoinFuturesUrl', PRESETS.mainnet.coinFuturesBaseUrl),
+                wsBaseUrl: url('customWebSocketUrl', PRESETS.mainnet.wsBaseUrl),
+            };
+        }
+        default:
+            return { environment: 'mainnet', ...PRESETS.mainnet };
+    }
+}
+
+/**
+ * True when both sets point at the same servers.
+ */
+export function sameEndpoints(a: Endpoints, b: Endpoints): boolean {
+    return (
+        a.environment === b.environment &&
+        a.restBaseUrl === b.restBaseUrl &&
+        a.futuresBaseUrl === b.futuresBaseUrl &&
+        a.coinFuturesBaseUrl === b.coinFuturesBaseUrl &&
+        a.wsBaseUrl === b.wsBaseUrl
+    );
+}
+
+function trimSlash(url: string): string {
+    return url.replace(/\/+$/, '');
+}
@@ -0,0 +1,26 @@
+import { Disposable } from './config';
+
+/**
+ * Subscribe to an event; dispose the result to unsubscribe. Compatible with `vscode.Event`.
+ */
+export type Event<T> = (listener: (value: T) => void) => Disposable;
+
+/**
+ * Minimal event emitter for the core, which cannot use `vscode.EventEmitter`.
+ */
+export class Emitter<T> implements Disposable {
+    private listeners: Set<(value: T) => void> = new Set();
+
+    readonly event: Event<T> = (listener) => {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    };
+
+    fire(value: T) {
+        [...this.listeners].forEach((listener) => listener(value));
+    }
+
+    dispose() {
+        this.listeners.clear();
+    }
+}
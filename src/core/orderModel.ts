@@ -0,0 +1,179 @@
+import { AccountTrade, OpenOrder, OrderWallet, SymbolAssets } from './binanceApi';
+import { ExecutionReportEvent } from './userDataStream';
+
+/** Fills kept per symbol */
+const MAX_TRADES = 50;
+
+/** Order statuses after which an order no longer locks funds */
+const CLOSED_STATUSES = new Set(['FILLED', 'CANCELED', 'EXPIRED', 'EXPIRED_IN_MATCH', 'REJECTED']);
+
+/**
+ * Share of an order's quantity that has been filled, in percent.
+ */
+export function getFilledPercent(order: OpenOrder): number {
+    return order.origQty > 0 ? (order.executedQty / order.origQty) * 100 : 0;
+}
+
+/**
+ * Whether an order locks the given asset: a sell order locks the base asset, a buy order
+ * the quote asset, e.g. `SELL BTCUSDT` locks BTC and `BUY ETHBTC` locks BTC.
+ *
+ * @param assets - Base and quote asset of the order's symbol; without them no asset is
+ *   locked, since symbols such as `ETHFIUSDT` cannot be split by name
+ */
+export function locksAsset(
+    order: OpenOrder,
+    asset: string,
+    assets: SymbolAssets | undefined
+): boolean {
+    if (!assets) {
+        return false;
+    }
+    return (order.side === 'SELL' ? assets.baseAsset : assets.quoteAsset) === asset;
+}
+
+/**
+ * Open orders and recent fills of one account.
+ *
+ * Open orders are loaded per wallet over REST and, for spot, kept current by
+ * `executionReport` events of the user data stream. Fills are loaded per symbol on demand
+ * and extended by streamed spot fills.
+ */
+export class OpenOrderModel {
+    private orders: Map<string, OpenOrder> = new Map();
+    private trades: Map<string, AccountTrade[]> = new Map();
+    private loadedWallets: Set<OrderWallet> = new Set();
+
+    /**
+     * @param getSymbolAssets - Base and quote asset of a symbol, if known
+     */
+    constructor(private readonly getSymbolAssets: (symbol: string) => SymbolAssets | undefined) {}
+
+    /**
+     * Replace the open orders of the given wallets with a REST snapshot.
+     */
+    resetOrders(wallets: OrderWallet[], orders: OpenOrder[]) {
+        for (const [key, order] of this.orders) {
+            if (wallets.includes(order.wallet)) {
+                this.orders.delete(key);
+            }
+        }
+        orders.forEach((order) => this.orders.set(orderKey(order), order));
+        wallets.forEach((wallet) => this.loadedWallets.add(wallet));
+    }
+
+    isLoaded(wallet: OrderWallet): boolean {
+        return this.loadedWallets.has(wallet);
+    }
+
+    /**
+     * Wallets whose open orders have been loaded, see `resetOrders`.
+     */
+    getLoadedWallets(): OrderWallet[] {
+        return [...this.loadedWallets];
+    }
+
+    /**
+     * Apply a spot `executionReport`: add or update the order, drop it once it is closed,
+     * and record its fill.
+     */
+    applyExecutionReport(event: ExecutionReportEvent) {
+        const order: OpenOrder = {
+            wallet: 'spot',
+            symbol: event.s,
+            orderId: event.i,
+            side: event.S,
+            type: event.o,
+            price: parseFloat(event.p),
+            stopPrice: parseFloat(event.P),
+            origQty: parseFloat(event.q),
+            executedQty: parseFloat(event.z),
+            time: event.O,
+        };
+
+        if (CLOSED_STATUSES.has(event.X)) {
+            this.orders.delete(orderKey(order));
+        } else {
+            this.orders.set(orderKey(order), order);
+        }
+
+        if (event.x === 'TRADE') {
+            const fill: AccountTrade = {
+                wallet: 'spot',
+                symbol: event.s,
+                id: event.t,
+                orderId: event.i,
+                side: event.S,
+                price: parseFloat(event.L),
+                qty: parseFloat(event.l),
+                quoteQty: parseFloat(event.L) * parseFloat(event.l),
+                commission: parseFloat(event.n),
+                commissionAsset: event.N ?? '',
+                isMaker: event.m,
+                time: event.T,
+            };
+            const key = tradesKey('spot', event.s);
+            this.trades.set(key, [fill, ...(this.trades.get(key) ?? [])].slice(0, MAX_TRADES));
+        }
+    }
+
+    /**
+     * Open orders, newest first.
+     */
+    getOrders(): OpenOrder[] {
+        return [...this.orders.values()].sort((a, b) => b.time - a.time);
+    }
+
+    /**
+     * Open orders that lock an asset of a wallet.
+     *
+     * @param symbol - Isolated margin pair of the asset; its orders are separate per pair
+     */
+    getOrdersLocking(wallet: OrderWallet, asset: string, symbol?: string): OpenOrder[] {
+        return this.getOrders().filter(
+            (order) =>
+                order.wallet === wallet &&
+                (symbol === undefined || order.symbol === symbol) &&
+                locksAsset(order, asset, this.getSymbolAssets(order.symbol))
+        );
+    }
+
+    /**
+     * Replace the fills of a symbol with a REST snapshot, newest first.
+     */
+    setTrades(wallet: OrderWallet, symbol: string, trades: AccountTrade[]) {
+        this.trades.set(
+            tradesKey(wallet, symbol),
+            [...trades].sort((a, b) => b.time - a.time).slice(0, MAX_TRADES)
+        );
+    }
+
+    /**
+     * Fills of a symbol, newest first, or undefined when they were never loaded.
+     */
+    getTrades(wallet: OrderWallet, symbol: string): AccountTrade[] | undefined {
+        return this.trades.get(tradesKey(wallet, symbol));
+    }
+
+    /**
+     * Symbols with open orders or loaded fills, sorted by wallet and symbol.
+     */
+    getTradeSymbols(): { wallet: OrderWallet; symbol: string }[] {
+        const keys = new Set([
+            ...[...this.orders.values()].map((order) => tradesKey(order.wallet, order.symbol)),
+            ...this.trades.keys(),
+        ]);
+        return [...keys].sort().map((key) => {
+            const [wallet, symbol] = key.split(':');
+            return { wallet: wallet as OrderWallet, symbol };
+        });
+    }
+}
+
+function orderKey(order: Pick<OpenOrder, 'wallet' | 'symbol' | 'orderId'>): string {
+    return `${order.wallet}:${order.symbol}:${order.orderId}`;
+}
+
+function tradesKey(wallet: OrderWallet, symbol: string): string {
+    return `${wallet}:${symbol}`;
+}
@@ -0,0 +1,199 @@
+import { WebSocket } from 'ws';
+import { ExponentialBackoff } from './backoff';
+
+/**
+ * 24h rolling ticker from a `<symbol>@ticker` stream.
+ */
+export interface TickerUpdate {
+    symbol: string;
+    lastPrice: number;
+    priceChangePercent: number;
+    highPrice: number;
+    lowPrice: number;
+    volume: number;
+    quoteVolume: number;
+}
+
+/**
+ * Combined `@ticker` stream whose subscriptions follow a changing symbol set.
+ *
+ * Symbol sets are registered per source (e.g. holdings, display currency) and the
+ * union is kept subscribed with SUBSCRIBE/UNSUBSCRIBE messages, so changes never
+ * require a reconnect.
+ */
+export class PriceStream {
+    private ws: WebSocket | null = null;
+    private connected = false;
+    private disposed = false;
+    private paused: boolean;
+    private reconnectTimer?: NodeJS.Timeout;
+    private requestId = 0;
+    private readonly backoff = new ExponentialBackoff(1000, 60000);
+    private readonly sources: Map<string, Set<string>> = new Map();
+    /** Streams currently subscribed on the open socket */
+    private subscribed: Set<string> = new Set();
+    private onTickerCallback?: (ticker: TickerUpdate) => void;
+
+    /**
+     * @param streamUrl - Combined stream endpoint, e.g. `wss://stream.binance.com:9443/stream`
+     * @param paused - Stay disconnected until `resume()`
+     */
+    constructor(
+        private readonly streamUrl: string,
+        paused = false
+    ) {
+        this.paused = paused;
+        this.connect();
+    }
+
+    onTicker(callback: (ticker: TickerUpdate) => void) {
+        this.onTickerCallback = callback;
+    }
+
+    /**
+     * Replace the symbols requested by one source and update the subscriptions.
+     *
+     * @param source - Name of the requester, e.g. `'holdings'`
+     * @param symbols - Symbols such as `BTCUSDT`; case-insensitive
+     */
+    setSymbols(source: string, symbols: string[]) {
+        this.sources.set(source, new Set(symbols.map((symbol) => symbol.toLowerCase())));
+        this.syncSubscriptions();
+    }
+
+    private desiredStreams(): Set<string> {
+        const streams = new Set<string>();
+        for (const symbols of this.sources.values()) {
+            symbols.forEach((symbol) => streams.add(`${symbol}@ticker`));
+        }
+        return streams;
+    }
+
+    private syncSubscriptions() {
+        if (!this.ws || !this.connected) {
+            return;
+        }
+
+        const desired = this.desiredStreams();
+        const toSubscribe = [...desired].filter((stream) => !this.subscribed.has(stream));
+        const toUnsubscribe = [...this.subscribed].filter((stream) => !desired.has(stream));
+
+        if (toUnsubscribe.length > 0) {
+            this.send('UNSUBSCRIBE', toUnsubscribe);
+        }
+        if (toSubscribe.length > 0) {
+            this.send('SUBSCRIBE', toSubscribe);
+        }
+        this.subscribed = desired;
+    }
+
+    private send(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]) {
+        this.ws?.send(JSON.stringify({ method, params, id: ++this.requestId }));
+    }
+
+    private connect() {
+        if (this.disposed || this.paused) {
+            return;
+        }
+
+        try {
+            const ws = new WebSocket(this.streamUrl);
+            this.ws = ws;
+
+            ws.on('open', () => {
+                console.log('Binance WebSocket connected');
+                this.connected = true;
+                this.backoff.reset();
+                this.subscribed = new Set();
+                this.syncSubscriptions();
+            });
+
+            ws.on('message', (data: string) => {
+                try {
+                    const message = JSON.parse(data);
+                    const ticker = message.data;
+                    if (ticker && ticker.e === '24hrTicker') {
+                        this.onTickerCallback?.({
+                            symbol: ticker.s,
+                            lastPrice: parseFloat(ticker.c),
+                            priceChangePercent: parseFloat(ticker.P),
+                            highPrice: parseFloat(ticker.h),
+                            lowPrice: parseFloat(ticker.l),
+                            volume: parseFloat(ticker.v),
+                            quoteVolume: parseFloat(ticker.q),
+                        });
+                    } else if (message.error) {
+                        console.warn('WebSocket subscription error:', message.error);
+                    }
+                } catch (error) {
+                    console.warn('WebSocket message parse error:', error);
+                }
+            });
+
+            ws.on('error', (error) => {
+                console.warn('WebSocket error:', error);
+            });
+
+            ws.on('close', () => {
+                if (this.ws !== ws) {
+                    return;
+                }
+                this.ws = null;
+                this.connected = false;
+                this.scheduleReconnect();
+            });
+        } catch (error) {
+            console.warn('Failed to setup WebSocket:', error);
+            this.scheduleReconnect();
+        }
+    }
+
+    private scheduleReconnect() {
+        if (this.disposed || this.paused || this.reconnectTimer) {
+            return;
+        }
+
+        const delay = this.backoff.next();
+        console.log(`WebSocket disconnected, reconnecting in ${delay}ms...`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.connect();
+        }, delay);
+    }
+
+    /**
+     * Close the socket until `resume()`. Requested symbols are kept and subscribed again
+     * on resume.
+     */
+    pause() {
+        this.paused = true;
+        this.close();
+    }
+
+    resume() {
+        if (!this.paused) {
+            return;
+        }
+        this.paused = false;
+        this.backoff.reset();
+        this.connect();
+    }
+
+    private close() {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        if (this.ws) {
+            const ws = this.ws;
+            this.ws = null;
+            this.connected = false;
+            ws.close();
+        }
+    }
+
+    dispose() {
+        this.disposed = true;
+        this.close();
+    }
+}
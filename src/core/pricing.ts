@@ -0,0 +1,127 @@
+/**
+ * USDT price of an asset and the market symbols it was derived from.
+ */
+export interface ResolvedPrice {
+    price: number;
+    /** Symbols used to derive the price; empty for USDT itself and stablecoin pegs */
+    symbols: string[];
+}
+
+/** Quote asset every valuation is expressed in */
+export const QUOTE_ASSET = 'USDT';
+
+/** Assets tried, in order, when an asset has no direct or inverse USDT pair */
+const BRIDGE_ASSETS = ['BTC', 'BNB', 'ETH', 'FDUSD', 'USDC'];
+
+/** USD stablecoins valued at 1 USDT when no market pair is listed */
+const USD_STABLECOINS = new Set(['USDC', 'FDUSD', 'BUSD', 'TUSD', 'USDP', 'DAI', 'USD1']);
+
+/**
+ * Whether an asset is USDT or a USD stablecoin, worth 1 USDT.
+ */
+export function isUsdAsset(asset: string): boolean {
+    return asset === QUOTE_ASSET || USD_STABLECOINS.has(asset);
+}
+
+/** Simple Earn flexible positions show up as `LD<asset>` in the spot wallet */
+const EARN_PREFIX = 'LD';
+
+/**
+ * Resolves USDT prices from a snapshot of all Binance spot tickers.
+ *
+ * Resolution order: direct `<asset>USDT` pair, inverse `USDT<asset>` pair (fiat such as
+ * TRY or BRL), a bridge through BTC/BNB/ETH/FDUSD/USDC in either direction, a USD
+ * stablecoin peg, and finally the underlying asset of an `LD*` earn token.
+ */
+export class PriceBook {
+    /**
+     * @param prices - Last price per symbol, e.g. from `/api/v3/ticker/price` and live tickers
+     */
+    constructor(private readonly prices: ReadonlyMap<string, number>) {}
+
+    /**
+     * Resolve the USDT price of an asset.
+     *
+     * @returns The price and the symbols it came from, or null when the asset cannot be valued
+     */
+    resolve(asset: string): ResolvedPrice | null {
+        return this.resolveAsset(asset.toUpperCase(), true);
+    }
+
+    private resolveAsset(asset: string, allowEarnToken: boolean): ResolvedPrice | null {
+        if (asset === QUOTE_ASSET) {
+            return { price: 1, symbols: [] };
+        }
+
+        const market = this.resolveDirect(asset) ?? this.resolveBridged(asset);
+        if (market) {
+            return market;
+        }
+
+        if (USD_STABLECOINS.has(asset)) {
+            return { price: 1, symbols: [] };
+        }
+
+        if (allowEarnToken && asset.startsWith(EARN_PREFIX) && asset.length > EARN_PREFIX.length) {
+            return this.resolveAsset(asset.slice(EARN_PREFIX.length), false);
+        }
+
+        return null;
+    }
+
+    /**
+     * Price from a `<asset>USDT` or `USDT<asset>` pair.
+     */
+    private resolveDirect(asset: string): ResolvedPrice | null {
+        const direct = this.price(`${asset}${QUOTE_ASSET}`);
+        if (direct !== undefined) {
+            return { price: direct, symbols: [`${asset}${QUOTE_ASSET}`] };
+        }
+
+        const inverse = this.price(`${QUOTE_ASSET}${asset}`);
+        if (inverse !== undefined) {
+            return { price: 1 / inverse, symbols: [`${QUOTE_ASSET}${asset}`] };
+        }
+
+        return null;
+    }
+
+    /**
+     * Price through an intermediate asset: `XYZBTC × BTCUSDT`, or `BTCUSDT / BTCXYZ` for inverse pairs.
+     */
+    private resolveBridged(asset: string): ResolvedPrice | null {
+        for (const bridge of BRIDGE_ASSETS) {
+            if (bridge === asset) {
+                continue;
+            }
+
+            const bridgePrice = this.resolveDirect(bridge);
+            if (!bridgePrice) {
+                continue;
+            }
+
+            const viaBridge = this.price(`${asset}${bridge}`);
+            if (viaBridge !== undefined) {
+                return {
+                    price: viaBridge * bridgePrice.price,
+                    symbols: [`${asset}${bridge}`, ...bridgePrice.symbols],
+                };
+            }
+
+            const inverseBridge = this.price(`${bridge}${asset}`);
+            if (inverseBridge !== undefined) {
+                return {
+                    price: bridgePrice.price / inverseBridge,
+                    symbols: [`${bridge}${asset}`, ...bridgePrice.symbols],
+                };
+            }
+        }
+
+        return null;
+    }
+
+    private price(symbol: string): number | undefined {
+        const price = this.prices.get(symbol);
+        return price !== undefined && price > 0 ? price : undefined;
+    }
+}
@@ -0,0 +1,208 @@
+import axios from 'axios';
+import { RateLimitError, toApiError } from './apiErrors';
+import { ExponentialBackoff } from './backoff';
+import { Disposable } from './config';
+import { Emitter } from './events';
+
+/**
+ * A REST call routed through the scheduler.
+ */
+export interface ScheduledRequest {
+    /** Server the weight counts against, e.g. `https://api.binance.com` */
+    baseUrl: string;
+    /** Endpoint path, e.g. `/api/v3/account`; selects the weight limit */
+    path: string;
+    /** Request weight as documented by Binance */
+    weight: number;
+    /** Identical requests in flight at the same time share one response */
+    key: string;
+    /** HTTP method, GET unless set; see `send` */
+    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    /**
+     * Build the URL and headers right before sending, so signed requests carry a fresh
+     * timestamp even after waiting in the queue.
+     */
+    prepare: () => { url: string; headers?: Record<string, string> };
+}
+
+/** Per-minute weight limit of the futures APIs; the spot API allows more */
+const FUTURES_WEIGHT_LIMIT = 2400;
+const SPOT_WEIGHT_LIMIT = 6000;
+/** Leave this share of the limit to other tools and windows on the same IP */
+const WEIGHT_SAFETY_FACTOR = 0.9;
+/** Retries of a request answered with HTTP 429 */
+const MAX_RATE_LIMIT_RETRIES = 3;
+/** A request without a response after this long fails as offline */
+const REQUEST_TIMEOUT = 15000;
+
+interface WeightBucket {
+    /** Minute (ms since epoch / 60000) the count belongs to */
+    minute: number;
+    used: number;
+}
+
+/**
+ * Central queue for Binance REST calls.
+ *
+ * - Tracks the used weight per server from `X-MBX-USED-WEIGHT-1M` (which includes other
+ *   windows and tools on the same IP) and holds requests until the next minute when the
+ *   next one would come close to the limit
+ * - On HTTP 429 or 418 pauses every request until `Retry-After`, or an exponential
+ *   backoff when the header is missing; 429 responses are retried
+ * - Shares the response of identical requests that are in flight at the same time
+ * - Aborts requests after 15 seconds, so a hung one does not hold its key forever
+ *
+ * Failed requests reject with a `BinanceApiError`.
+ */
+export class RequestScheduler implements Disposable {
+    private inFlight: Map<string, Promise<unknown>> = new Map();
+    private buckets: Map<string, WeightBucket> = new Map();
+    private blockedUntil = 0;
+    private resumeAt: number | null = null;
+    private readonly backoff = new ExponentialBackoff(1000, 5 * 60000);
+    private readonly stateEmitter = new Emitter<number | null>();
+
+    /**
+     * Fires with the time requests resume when they start being held back, and with
+     * null once requests flow again.
+     */
+    readonly onDidChangeState = this.stateEmitter.event;
+
+    /**
+     * Time (ms since epoch) until which requests are held back, or null.
+     */
+    getResumeTime(): number | null {
+        return this.resumeAt;
+    }
+
+    /**
+     * Send a GET request once the weight budget allows it.
+     */
+    get<T>(request: ScheduledRequest): Promise<T> {
+        const existing = this.inFlight.get(request.key);
+        if (existing) {
+            return existing as Promise<T>;
+        }
+
+        const promise = this.run<T>(request, 0).finally(() => this.inFlight.delete(request.key));
+        this.inFlight.set(request.key, promise);
+        return promise;
+    }
+
+    /**
+     * Send a request that changes state on the server, e.g. creating a listenKey, once the
+     * weight budget allows it. Unlike `get`, identical requests are never merged.
+     */
+    send<T>(request: Omit<ScheduledRequest, 'key'>): Promise<T> {
+        return this.run<T>(request, 0);
+    }
+
+    private async run<T>(request: Omit<ScheduledRequest, 'key'>, attempt: number): Promise<T> {
+        await this.waitForCapacity(request);
+
+        const bucket = this.getBucket(request.baseUrl);
+        bucket.used += request.weight;
+
+        try {
+            const { url, headers } = request.prepare();
+            const response = await axios.request({
+                method: request.method ?? 'GET',
+                url,
+                headers,
+                timeout: REQUEST_TIMEOUT,
+            });
+            this.recordUsedWeight(request.baseUrl, response.headers);
+            this.backoff.reset();
+            this.setResumeTime(null);
+            return response.data as T;
+        } catch (error) {
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+            if (!axios.isAxiosError(error) || (status !== 429 && status !== 418)) {
+                throw toApiError(error);
+            }
+
+            this.recordUsedWeight(request.baseUrl, error.response?.headers ?? {});
+            const retryAfter = parseFloat(String(error.response?.headers['retry-after'])) * 1000;
+            const pause = Math.max(
+                Number.isFinite(retryAfter) ? retryAfter : 0,
+                this.backoff.next()
+            );
+            this.blockedUntil = Math.max(this.blockedUntil, Date.now() + pause);
+            this.setResumeTime(this.blockedUntil);
+            console.warn(`Binance rate limit (HTTP ${status}), pausing requests for ${pause}ms`);
+
+            if (status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+                return this.run<T>(request, attempt + 1);
+            }
+            throw new RateLimitError(
+                status === 418
+                    ? 'IP temporarily banned by Binance for exceeding rate limits'
+                    : 'Rate limited by Binance',
+                this.blockedUntil,
+                status
+            );
+        }
+    }
+
+    /**
+     * Wait out a 429/418 pause and, if this request would exceed the weight budget of its
+     * server, the rest of the current minute.
+     */
+    private async waitForCapacity(request: Omit<ScheduledRequest, 'key'>) {
+        for (;;) {
+            const now = Date.now();
+            if (this.blockedUntil > now) {
+                await delay(this.blockedUntil - now);
+                continue;
+            }
+
+            const bucket = this.getBucket(request.baseUrl);
+            const limit =
+                request.path.startsWith('/fapi') || request.path.startsWith('/dapi')
+                    ? FUTURES_WEIGHT_LIMIT
+                    : SPOT_WEIGHT_LIMIT;
+            if (bucket.used + request.weight <= limit * WEIGHT_SAFETY_FACTOR) {
+                return;
+            }
+
+            const nextMinute = (bucket.minute + 1) * 60000;
+            this.setResumeTime(nextMinute);
+            await delay(nextMinute - now + 100);
+        }
+    }
+
+    private getBucket(baseUrl: string): WeightBucket {
+        const minute = Math.floor(Date.now() / 60000);
+        let bucket = this.buckets.get(baseUrl);
+        if (!bucket || bucket.minute !== minute) {
+            bucket = { minute, used: 0 };
+            this.buckets.set(baseUrl, bucket);
+        }
+        return bucket;
+    }
+
+    /**
+     * Adopt the server's count, which also covers requests from other processes.
+     */
+    private recordUsedWeight(baseUrl: string, headers: Record<string, unknown>) {
+        const used = parseInt(String(headers['x-mbx-used-weight-1m']), 10);
+        if (Number.isFinite(used)) {
+            this.getBucket(baseUrl).used = used;
+        }
+    }
+
+    private setResumeTime(resumeAt: number | null) {
+        if (this.resumeAt !== resumeAt) {
+            this.resumeAt = resumeAt;
+            this.stateEmitter.fire(resumeAt);
+        }
+    }
+
+    dispose() {
+        this.stateEmitter.dispose();
+    }
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,66 @@
+/** How often the offset is re-measured */
+const SYNC_INTERVAL = 30 * 60 * 1000;
+
+/**
+ * Estimates the offset between the local clock and Binance server time, so signed
+ * requests carry a timestamp the server accepts even when the local clock drifts.
+ */
+export class ServerClock {
+    private offset = 0;
+    private syncing: Promise<void> | null = null;
+    private timer?: NodeJS.Timeout;
+
+    /**
+     * @param fetchServerTime - Reads the server time in ms, e.g. from `/api/v3/time`
+     */
+    constructor(private readonly fetchServerTime: () => Promise<number>) {}
+
+    /**
+     * Sync now and then every 30 minutes. Failures keep the previous offset.
+     */
+    start() {
+        this.sync().catch((error) => console.warn('Server time sync failed:', error));
+        this.timer = setInterval(() => {
+            this.sync().catch((error) => console.warn('Server time sync failed:', error));
+        }, SYNC_INTERVAL);
+    }
+
+    /**
+     * Current server time estimate in ms since epoch.
+     */
+    now(): number {
+        return Date.now() + this.offset;
+    }
+
+    getOffset(): number {
+        return this.offset;
+    }
+
+    /**
+     * Measure the offset, assuming the server read its clock halfway through the round trip.
+     * Concurrent calls share one request.
+     */
+    sync(): Promise<void> {
+        if (!this.syncing) {
+            this.syncing = this.measure().finally(() => (this.syncing = null));
+        }
+        return this.syncing;
+    }
+
+    private async measure() {
+        const sent = Date.now();
+        const serverTime = await this.fetchServerTime();
+        const received = Date.now();
+        this.offset = Math.round(serverTime - (sent + received) / 2);
+
+        if (Math.abs(this.offset) > 1000) {
+            console.log(`Local clock is ${this.offset}ms off Binance server time; compensating`);
+        }
+    }
+
+    dispose() {
+        if (this.timer) {
+            clearInterval(this.timer);
+        }
+    }
+}
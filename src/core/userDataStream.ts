@@ -0,0 +1,327 @@
+import { WebSocket } from 'ws';
+import { RateLimitError } from './apiErrors';
+import { ExponentialBackoff } from './backoff';
+import { RequestScheduler } from './requestScheduler';
+
+/**
+ * Full balance of every asset that changed in an account update.
+ */
+export interface OutboundAccountPositionEvent {
+    e: 'outboundAccountPosition';
+    /** Event time */
+    E: number;
+    /** Time of last account update */
+    u: number;
+    B: { a: string; f: string; l: string }[];
+}
+
+/**
+ * Balance delta caused by a deposit, withdrawal or transfer.
+ */
+export interface BalanceUpdateEvent {
+    e: 'balanceUpdate';
+    E: number;
+    a: string;
+    /** Balance delta */
+    d: string;
+    /** Clear time */
+    T: number;
+}
+
+/**
+ * Order placed, filled, canceled or expired.
+ */
+export interface ExecutionReportEvent {
+    e: 'executionReport';
+    E: number;
+    s: string;
+    S: 'BUY' | 'SELL';
+    /** Order type, e.g. `LIMIT` */
+    o: string;
+    /** Order quantity */
+    q: string;
+    /** Order price */
+    p: string;
+    /** Stop price */
+    P: string;
+    /** Execution type: `NEW`, `TRADE`, `CANCELED`, `EXPIRED`, `REJECTED`, ... */
+    x: string;
+    /** Order status: `NEW`, `PARTIALLY_FILLED`, `FILLED`, `CANCELED`, ... */
+    X: string;
+    /** Order id */
+    i: number;
+    /** Quantity of the last fill */
+    l: string;
+    /** Cumulative filled quantity */
+    z: string;
+    /** Price of the last fill */
+    L: string;
+    /** Commission of the last fill */
+    n: string;
+    /** Commission asset, null without a fill */
+    N: string | null;
+    /** Transaction time */
+    T: number;
+    /** Trade id, -1 without a fill */
+    t: number;
+    /** Whether the fill was on the maker side */
+    m: boolean;
+    /** Cumulative quote quantity */
+    Z: string;
+    /** Order creation time */
+    O: number;
+}
+
+export type UserDataEvent =
+    | OutboundAccountPositionEvent
+    | BalanceUpdateEvent
+    | ExecutionReportEvent;
+
+export interface UserDataStreamOptions {
+    /** REST base URL used to create, keep alive and close the listenKey */
+    restBaseUrl: string;
+    /** WebSocket base URL, the listenKey is appended to it */
+    wsBaseUrl: string;
+    apiKey: string;
+    /** Sends the listenKey requests, so they count against the weight limit */
+    scheduler: RequestScheduler;
+    /** Keepalive period in ms; Binance expires an idle listenKey after 60 minutes */
+    keepaliveInterval?: number;
+    /** Delay before the first reconnect; doubles on every failed attempt */
+    initialReconnectDelay?: number;
+    /** Upper bound for the reconnect delay */
+    maxReconnectDelay?: number;
+}
+
+const DEFAULT_KEEPALIVE_INTERVAL = 30 * 60 * 1000;
+const DEFAULT_INITIAL_RECONNECT_DELAY = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY = 60000;
+const LISTEN_KEY_PATH = '/api/v3/userDataStream';
+/** Weight of creating, keeping alive or closing a listenKey */
+const LISTEN_KEY_WEIGHT = 2;
+
+/**
+ * Spot user data stream: creates a listenKey, keeps it alive and delivers
+ * account events. Reconnects with a fresh listenKey and exponential backoff
+ * whenever the socket closes or the keepalive is rejected.
+ *
+ * The listenKey requests go through the `RequestScheduler`, so they wait out rate limits
+ * like every other request; keepalives are skipped while requests are held back.
+ */
+export class UserDataStream {
+    private ws: WebSocket | null = null;
+    private listenKey: string | null = null;
+    private keepaliveTimer?: NodeJS.Timeout;
+    private reconnectTimer?: NodeJS.Timeout;
+    private connected = false;
+    private disposed = false;
+    private onEventCallback?: (event: UserDataEvent) => void;
+    private onStatusChangeCallback?: (connected: boolean) => void;
+
+    private readonly backoff: ExponentialBackoff;
+
+    constructor(private readonly options: UserDataStreamOptions) {
+        this.backoff = new ExponentialBackoff(
+            options.initialReconnectDelay ?? DEFAULT_INITIAL_RECONNECT_DELAY,
+            options.maxReconnectDelay ?? DEFAULT_MAX_RECONNECT_DELAY
+        );
+    }
+
+    onEvent(callback: (event: UserDataEvent) => void) {
+        this.onEventCallback = callback;
+    }
+
+    /**
+     * Register a callback invoked when the socket opens or closes.
+     */
+    onStatusChange(callback: (connected: boolean) => void) {
+        this.onStatusChangeCallback = callback;
+    }
+
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    async start(): Promise<void> {
+        if (this.disposed) {
+            return;
+        }
+
+        try {
+            const listenKey = await this.createListenKey();
+            if (this.disposed) {
+                await this.closeListenKey(listenKey);
+                return;
+            }
+            this.listenKey = listenKey;
+            this.connect(listenKey);
+            this.startKeepalive();
+        } catch (error) {
+            console.warn('Failed to start user data stream:', error);
+            this.scheduleReconnect();
+        }
+    }
+
+    private async createListenKey(): Promise<string> {
+        const data = await this.sendListenKeyRequest<{ listenKey: string }>('POST');
+        return data.listenKey;
+    }
+
+    private async keepalive() {
+        if (!this.listenKey) {
+            return;
+        }
+        if (this.options.scheduler.getResumeTime() !== null) {
+            // Requests are held back by a rate limit or ban; a listenKey lives for 60
+            // minutes, so the next round can still keep it alive
+            return;
+        }
+
+        try {
+            await this.sendListenKeyRequest('PUT', this.listenKey);
+        } catch (error) {
+            if (error instanceof RateLimitError) {
+                console.warn('User data stream keepalive skipped, rate limited:', error.message);
+                return;
+            }
+            // The listenKey has most likely expired; start over with a new one
+            console.warn('User data stream keepalive failed, reconnecting:', error);
+            this.restart();
+        }
+    }
+
+    private sendListenKeyRequest<T>(
+        method: 'POST' | 'PUT' | 'DELETE',
+        listenKey?: string
+    ): Promise<T> {
+        const query = listenKey ? `?listenKey=${encodeURIComponent(listenKey)}` : '';
+        return this.options.scheduler.send<T>({
+            baseUrl: this.options.restBaseUrl,
+            path: LISTEN_KEY_PATH,
+            weight: LISTEN_KEY_WEIGHT,
+            method,
+            prepare: () => ({
+                url: `${this.options.restBaseUrl}${LISTEN_KEY_PATH}${query}`,
+                headers: { 'X-MBX-APIKEY': this.options.apiKey },
+            }),
+        });
+    }
+
+    private startKeepalive() {
+        this.stopKeepalive();
+        this.keepaliveTimer = setInterval(
+            () => this.keepalive(),
+            this.options.keepaliveInterval ?? DEFAULT_KEEPALIVE_INTERVAL
+        );
+    }
+
+    private stopKeepalive() {
+        if (this.keepaliveTimer) {
+            clearInterval(this.keepaliveTimer);
+            this.keepaliveTimer = undefined;
+        }
+    }
+
+    private connect(listenKey: string) {
+        const ws = new WebSocket(`${this.options.wsBaseUrl}${listenKey}`);
+        this.ws = ws;
+
+        ws.on('open', () => {
+            console.log('Binance user data stream connected');
+            this.backoff.reset();
+            this.setConnected(true);
+        });
+
+        ws.on('message', (data: string) => {
+            try {
+                const event = JSON.parse(data);
+                if (event.e === 'listenKeyExpired') {
+                    this.restart();
+                } else if (
+                    event.e === 'outboundAccountPosition' ||
+                    event.e === 'balanceUpdate' ||
+                    event.e === 'executionReport'
+                ) {
+                    this.onEventCallback?.(event);
+                }
+            } catch (error) {
+                console.warn('User data stream message parse error:', error);
+            }
+        });
+
+        ws.on('error', (error) => {
+            console.warn('User data stream error:', error);
+        });
+
+        ws.on('close', () => {
+            // Ignore sockets that were replaced by restart()
+            if (this.ws !== ws) {
+                return;
+            }
+            this.ws = null;
+            this.setConnected(false);
+            this.stopKeepalive();
+            this.scheduleReconnect();
+        });
+    }
+
+    private scheduleReconnect() {
+        if (this.disposed || this.reconnectTimer) {
+            return;
+        }
+
+        const delay = this.backoff.next();
+        console.log(`User data stream disconnected, reconnecting in ${delay}ms...`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.start();
+        }, delay);
+    }
+
+    private restart() {
+        this.closeSocket();
+        this.stopKeepalive();
+        this.listenKey = null;
+        this.setConnected(false);
+        this.scheduleReconnect();
+    }
+
+    private closeSocket() {
+        if (this.ws) {
+            const ws = this.ws;
+            this.ws = null;
+            ws.close();
+        }
+    }
+
+    private setConnected(connected: boolean) {
+        if (this.connected !== connected) {
+            this.connected = connected;
+            this.onStatusChangeCallback?.(connected);
+        }
+    }
+
+    dispose() {
+        this.disposed = true;
+        this.stopKeepalive();
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        this.closeSocket();
+        this.setConnected(false);
+
+        if (this.listenKey) {
+            this.closeListenKey(this.listenKey);
+            this.listenKey = null;
+        }
+    }
+
+    private async closeListenKey(listenKey: string) {
+        try {
+            await this.sendListenKeyRequest('DELETE', listenKey);
+        } catch (error) {
+            console.warn('Failed to close listenKey:', error);
+        }
+    }
+}
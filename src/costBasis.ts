@@ -0,0 +1,112 @@
+/**
+ * How the cost of sold units is chosen: first in first out, or the running average cost.
+ */
+export type CostBasisMethod = 'fifo' | 'average';
+
+/**
+ * One fill of an asset valued in USDT, with fees already applied: a buy's `qty` is what
+ * was received, a sell's `amountUSDT` what was received.
+ */
+export interface BasisTrade {
+    time: number;
+    side: 'BUY' | 'SELL';
+    qty: number;
+    /** USDT paid (buy) or received (sell), fees included */
+    amountUSDT: number;
+}
+
+/**
+ * Cost basis of the units left after replaying an asset's trades.
+ */
+export interface CostBasis {
+    /** Units bought and not yet sold; 0 when everything was sold */
+    quantity: number;
+    /** USDT cost of `quantity` */
+    costUSDT: number;
+    /** `costUSDT / quantity`, or null without units */
+    averageCost: number | null;
+    /** Proceeds minus cost of every sold unit that was bought before */
+    realizedPnlUSDT: number;
+}
+
+/** Quantities below this are rounding leftovers */
+const DUST = 1e-12;
+
+/**
+ * Replay an asset's trades, oldest first, and return the cost of the units still held.
+ *
+ * Units sold beyond what the trades bought (e.g. deposited ones) have no known cost;
+ * they count as neither cost nor realized PnL.
+ */
+export function computeCostBasis(trades: BasisTrade[], method: CostBasisMethod): CostBasis {
+    // FIFO keeps one lot per buy; the average method a single merged lot
+    let lots: { qty: number; costUSDT: number }[] = [];
+    let realizedPnlUSDT = 0;
+
+    for (const trade of [...trades].sort((a, b) => a.time - b.time)) {
+        if (trade.qty <= 0) {
+            continue;
+        }
+
+        if (trade.side === 'BUY') {
+            lots.push({ qty: trade.qty, costUSDT: trade.amountUSDT });
+            if (method === 'average') {
+                lots = [mergeLots(lots)];
+            }
+            continue;
+        }
+
+        let remaining = trade.qty;
+        let soldCost = 0;
+        while (remaining > DUST && lots.length > 0) {
+            const lot = lots[0];
+            const used = Math.min(lot.qty, remaining);
+            const usedCost = (lot.costUSDT / lot.qty) * used;
+            soldCost += usedCost;
+            remaining -= used;
+            lot.qty -= used;
+            lot.costUSDT -= usedCost;
+            if (lot.qty <= DUST) {
+                lots.shift();
+            }
+        }
+
+        // Only the covered part of the sale has a known cost
+        const coveredQty = trade.qty - Math.max(0, remaining);
+        realizedPnlUSDT += (trade.amountUSDT / trade.qty) * coveredQty - soldCost;
+    }
+
+    const total = mergeLots(lots);
+    return {
+        quantity: total.qty,
+        costUSDT: total.costUSDT,
+        averageCost: total.qty > DUST ? total.costUSDT / total.qty : null,
+        realizedPnlUSDT,
+    };
+}
+
+/**
+ * Unrealized PnL of a held amount at a price. Only the part of the holding that the
+ * trades explain is valued; the rest has no known cost.
+ */
+export function getUnrealizedPnl(
+    basis: CostBasis,
+    heldQty: number,
+    priceUSDT: number
+): { pnlUSDT: number; percent: number; coveredQty: number } | null {
+    if (basis.averageCost === null || heldQty <= 0) {
+        return null;
+    }
+
+    const coveredQty = Math.min(heldQty, basis.quantity);
+    const cost = coveredQty * basis.averageCost;
+    const pnlUSDT = coveredQty * priceUSDT - cost;
+    return { pnlUSDT, percent: cost > 0 ? (pnlUSDT / cost) * 100 : 0, coveredQty };
+}
+
+function mergeLots(lots: { qty: number; costUSDT: number }[]): { qty: number; costUSDT: number } {
+    return lots.reduce(
+        (total, lot) => ({ qty: total.qty + lot.qty, costUSDT: total.costUSDT + lot.costUSDT }),
+        { qty: 0, costUSDT: 0 }
+    );
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { CredentialProvider, Credentials } from './core/config';
+
+/** Profile that owns the credentials stored before profiles existed */
+export const DEFAULT_PROFILE_ID = 'default';
+
+const API_KEY_SECRET = 'binanceBalance.apiKey';
+const API_SECRET_SECRET = 'binanceBalance.apiSecret';
+
+/**
+ * Stores Binance API credentials in VS Code SecretStorage so they never
+ * end up in settings.json or settings sync. Each profile has its own store.
+ */
+export class CredentialStore implements CredentialProvider {
+    private readonly apiKeySecret: string;
+    private readonly apiSecretSecret: string;
+
+    /**
+     * @param secrets - The extension's secret storage
+     * @param profileId - Profile whose credentials are stored; the default profile keeps
+     * the original secret names so existing credentials stay valid
+     */
+    constructor(
+        private readonly secrets: vscode.SecretStorage,
+        profileId = DEFAULT_PROFILE_ID
+    ) {
+        if (profileId === DEFAULT_PROFILE_ID) {
+            this.apiKeySecret = API_KEY_SECRET;
+            this.apiSecretSecret = API_SECRET_SECRET;
+        } else {
+            this.apiKeySecret = `binanceBalance.profiles.${profileId}.apiKey`;
+            this.apiSecretSecret = `binanceBalance.profiles.${profileId}.apiSecret`;
+        }
+    }
+
+    /**
+     * Read the stored key pair. Missing values are returned as empty strings.
+     */
+    async get(): Promise<Credentials> {
+        const [apiKey, apiSecret] = await Promise.all([
+            this.secrets.get(this.apiKeySecret),
+            this.secrets.get(this.apiSecretSecret),
+        ]);
+        return { apiKey: apiKey ?? '', apiSecret: apiSecret ?? '' };
+    }
+
+    async store(credentials: Credentials): Promise<void> {
+        await this.secrets.store(this.apiKeySecret, credentials.apiKey);
+        await this.secrets.store(this.apiSecretSecret, credentials.apiSecret);
+    }
+
+    async clear(): Promise<void> {
+        await this.secrets.delete(this.apiKeySecret);
+        await this.secrets.delete(this.apiSecretSecret);
+    }
+
+    /**
+     * Register a listener that fires when either credential changes.
+     */
+    onDidChange(listener: () => void): vscode.Disposable {
+        return this.secrets.onDidChange((e) => {
+            if (e.key === this.apiKeySecret || e.key === this.apiSecretSecret) {
+                listener();
+            }
+        });
+    }
+
+    /**
+     * Move plaintext `binanceBalance.apiKey` / `binanceBalance.apiSecret` values out of
+     * settings and into this store, then remove them from the user and workspace scopes.
+     * Called on the default profile's store.
+     *
+     * @returns true when at least one value was migrated
+     */
+    async migrateFromSettings(): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        let migrated = false;
+
+        for (const [setting, secretKey] of [
+            ['apiKey', this.apiKeySecret],
+            ['apiSecret', this.apiSecretSecret],
+        ]) {
+            const inspected = config.inspect<string>(setting);
+            const value = inspected?.workspaceValue || inspected?.globalValue;
+
+            if (!value) {
+                continue;
+            }
+
+            await this.secrets.store(secretKey, value);
+
+            if (inspected?.globalValue !== undefined) {
+                await config.update(setting, undefined, vscode.ConfigurationTarget.Global);
+            }
+            if (inspected?.workspaceValue !== undefined) {
+                await config.update(setting, undefined, vscode.ConfigurationTarget.Workspace);
+            }
+            migrated = true;
+        }
+
+        return migrated;
+    }
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { QUOTE_ASSET, ResolvedPrice } from './core/pricing';
+
+/** Daily fiat exchange rates per USD, for fiat currencies without a Binance market (e.g. KRW) */
+const FIAT_RATES_URL = 'https://open.er-api.com/v6/latest/USD';
+const FIAT_RATES_MAX_AGE = 60 * 60 * 1000;
+
+/**
+ * Fiat currencies, formatted as money with their ISO 4217 decimals rather than as coins.
+ */
+// prettier-ignore
+const FIAT_CURRENCIES = new Set([
+    'USD', 'EUR', 'GBP', 'JPY', 'KRW', 'TRY', 'BRL', 'AUD', 'CAD', 'CHF', 'CNY', 'HKD',
+    'INR', 'IDR', 'MXN', 'NGN', 'PLN', 'RON', 'RUB', 'SGD', 'THB', 'TWD', 'UAH', 'VND',
+    'ZAR', 'ARS', 'COP', 'CZK', 'SEK', 'NOK', 'DKK', 'NZD', 'PHP', 'MYR', 'AED', 'SAR',
+    'ILS', 'KZT', 'HUF', 'PKR', 'BDT', 'EGP', 'CLP', 'PEN',
+]);
+
+/**
+ * A USDT amount expressed in another currency.
+ */
+export interface ConvertedAmount {
+    amount: number;
+    currency: string;
+    /** USDT value of one unit of the currency; picks the decimals of coin amounts */
+    unitPriceUSDT: number;
+    /** Binance symbols the rate came from, to keep live on the ticker stream */
+    symbols: string[];
+}
+
+export function isFiatCurrency(currency: string): boolean {
+    return FIAT_CURRENCIES.has(currency.toUpperCase());
+}
+
+/**
+ * Format an amount in any currency:
+ *
+ * - USDT as dollars, as the status bar always has: `$12,345.67`
+ * - Fiat with its symbol and decimals through `Intl.NumberFormat`: `€11,402.10`, `₩16,954,321`
+ * - Other assets with decimals that fit their unit value: `0.190000 BTC`, `84.2311 SOL`
+ *
+ * @param unitPriceUSDT - USDT value of one unit; coins worth more get more decimals
+ */
+export function formatCurrency(amount: number, currency: string, unitPriceUSDT = 1): string {
+    if (currency === QUOTE_ASSET) {
+        return formatCurrency(amount, 'USD');
+    }
+
+    if (isFiatCurrency(currency)) {
+        return new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency,
+            currencyDisplay: 'narrowSymbol',
+        }).format(amount);
+    }
+
+    const decimals = unitPriceUSDT >= 10000 ? 6 : unitPriceUSDT >= 10 ? 4 : 2;
+    const formatted = new Intl.NumberFormat('en-US', {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+    }).format(amount);
+    return `${formatted} ${currency}`;
+}
+
+/**
+ * The `displayCurrency` setting followed by `secondaryDisplayCurrency` when set,
+ * upper-cased and without duplicates.
+ */
+export function getDisplayCurrencies(): string[] {
+    const config = vscode.workspace.getConfiguration('binanceBalance');
+    const currencies = [
+        config.get<string>('displayCurrency', QUOTE_ASSET),
+        config.get<string>('secondaryDisplayCurrency', ''),
+    ]
+        .map((currency) => currency.trim().toUpperCase())
+        .filter((currency) => currency !== '');
+    return currencies.length > 0 ? [...new Set(currencies)] : [QUOTE_ASSET];
+}
+
+/**
+ * Format a USDT amount in every display currency, e.g. `$12,345.00 · 0.190000 BTC`.
+ * A currency that cannot be priced is shown in USDT instead.
+ *
+ * @param convert - Usually `AccountManager.convertFromUSDT`
+ * @returns The text and the symbols the conversion used
+ */
+export async function formatInDisplayCurrencies(
+    amountUSDT: number,
+    convert: (amountUSDT: number, currency: string) => Promise<ConvertedAmount | null>
+): Promise<{ text: string; symbols: string[] }> {
+    const converted = await Promise.all(
+        getDisplayCurrencies().map((currency) => convert(amountUSDT, currency))
+    );
+    const parts = converted.map((amount) =>
+        amount
+            ? formatCurrency(amount.amount, amount.currency, amount.unitPriceUSDT)
+            : formatCurrency(amountUSDT, QUOTE_ASSET)
+    );
+    return {
+        text: [...new Set(parts)].join(' · '),
+        symbols: converted.flatMap((amount) => amount?.symbols ?? []),
+    };
+}
+
+/**
+ * Converts USDT amounts into a display currency: through Binance markets first (`EURUSDT`,
+ * `USDTTRY`, bridges via BTC, ...), then through fiat exchange rates with USDT taken as USD.
+ */
+export class CurrencyConverter {
+    private fiatRates: Map<string, number> | null = null;
+    private fiatRatesFetchedAt = 0;
+    private fiatRatesLoading: Promise<void> | null = null;
+
+    /**
+     * @param resolvePrice - USDT price of an asset from the current price snapshot
+     */
+    constructor(private readonly resolvePrice: (asset: string) => ResolvedPrice | null) {}
+
+    /**
+     * @returns The converted amount, or null when the currency cannot be priced
+     */
+    async fromUSDT(amountUSDT: number, currency: string): Promise<ConvertedAmount | null> {
+        const code = currency.trim().toUpperCase();
+
+        const resolved = this.resolvePrice(code);
+        if (resolved) {
+            return {
+                amount: amountUSDT / resolved.price,
+                currency: code,
+                unitPriceUSDT: resolved.price,
+                symbols: resolved.symbols,
+            };
+        }
+
+        if (!isFiatCurrency(code)) {
+            return null;
+        }
+
+        const rate = await this.getFiatRate(code);
+        return rate === null
+            ? null
+            : { amount: amountUSDT * rate, currency: code, unitPriceUSDT: 1 / rate, symbols: [] };
+    }
+
+    /**
+     * Units of a fiat currency per USD. Rates are fetched at most once an hour; a failed
+     * fetch keeps the previous rates.
+     */
+    private async getFiatRate(currency: string): Promise<number | null> {
+        if (currency === 'USD') {
+            return 1;
+        }
+
+        if (Date.now() - this.fiatRatesFetchedAt > FIAT_RATES_MAX_AGE) {
+            if (!this.fiatRatesLoading) {
+                this.fiatRatesLoading = this.loadFiatRates().finally(
+                    () => (this.fiatRatesLoading = null)
+                );
+            }
+            await this.fiatRatesLoading;
+        }
+
+        return this.fiatRates?.get(currency) ?? null;
+    }
+
+    private async loadFiatRates() {
+        try {
+            const response = await axios.get<{ rates: Record<string, number> }>(FIAT_RATES_URL, {
+                timeout: 10000,
+            });
+            this.fiatRates = new Map(Object.entries(response.data.rates));
+        } catch (error) {
+            console.warn('Failed to fetch fiat exchange rates:', error);
+        }
+        // Also after a failure, so an outage does not cause a request per update
+        this.fiatRatesFetchedAt = Date.now();
+    }
+}
@@ -0,0 +1,338 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { AccountManager } from './accountManager';
+import { TotalEstimatedBalance, WALLET_LABELS, WalletAsset, WalletType } from './core/binanceApi';
+import { QUOTE_ASSET } from './core/pricing';
+import { formatCurrency, formatInDisplayCurrencies } from './currency';
+import { escapeHtml } from './historyPanel';
+import { PrivacyMode } from './privacy';
+
+/** Number of rows in the top holdings table */
+const TOP_HOLDINGS = 15;
+/** Assets beyond this many are folded into "Other" in the allocation bar */
+const ALLOCATION_SLICES = 8;
+
+const COLORS = [
+    'var(--vscode-charts-blue)',
+    'var(--vscode-charts-green)',
+    'var(--vscode-charts-yellow)',
+    'var(--vscode-charts-orange)',
+    'var(--vscode-charts-red)',
+    'var(--vscode-charts-purple)',
+    'var(--vscode-charts-foreground)',
+    'var(--vscode-charts-lines)',
+    'var(--vscode-descriptionForeground)',
+];
+
+/**
+ * One asset summed over every wallet and active profile.
+ */
+interface Holding {
+    asset: string;
+    amount: number;
+    valueUSDT: number;
+    /** 24h change in percent, null when unknown */
+    change24h: number | null;
+}
+
+interface Slice {
+    label: string;
+    value: number;
+}
+
+/** Replaces an amount with the mask while privacy mode is on */
+type Mask = (text: string) => string;
+
+/**
+ * Webview with the current portfolio of the active profile selection: total in the
+ * display currency, allocation by asset and wallet, top holdings and margin debt.
+ *
+ * The page is loaded once; silent updates are posted to it and replace the content in
+ * place, so the panel can stay pinned in an editor tab. In privacy mode amounts are
+ * masked and only shares and percentages remain.
+ */
+export class PortfolioDashboardPanel implements vscode.Disposable {
+    private static currentPanel: PortfolioDashboardPanel | undefined;
+
+    private readonly disposables: vscode.Disposable[] = [];
+
+    static createOrShow(accounts: AccountManager, privacy: PrivacyMode) {
+        if (PortfolioDashboardPanel.currentPanel) {
+            PortfolioDashboardPanel.currentPanel.panel.reveal();
+            PortfolioDashboardPanel.currentPanel.update();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'binanceBalance.dashboard',
+            'Portfolio Dashboard',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        PortfolioDashboardPanel.currentPanel = new PortfolioDashboardPanel(
+            panel,
+            accounts,
+            privacy
+        );
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly accounts: AccountManager,
+        private readonly privacy: PrivacyMode
+    ) {
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        // The page asks for its first content once its message listener is installed
+        this.panel.webview.onDidReceiveMessage(
+            (message: { type: string }) => {
+                if (message.type === 'ready') {
+                    this.update();
+                }
+            },
+            null,
+            this.disposables
+        );
+        this.accounts.onDidUpdateBalance(() => this.update(), null, this.disposables);
+        this.accounts.onDidChangeProfile(() => this.update(), null, this.disposables);
+        this.privacy.onDidChange(() => this.update(), null, this.disposables);
+        this.panel.webview.html = this.getHtml();
+    }
+
+    /**
+     * Rebuild the content from the clients' last balances and post it to the webview.
+     * Requests a cached balance first when nothing has been loaded yet.
+     */
+    private async update() {
+        const clients = this.accounts
+            .getActiveClients()
+            .filter(({ client }) => client.isConfigured());
+
+        if (clients.length > 0 && clients.some(({ client }) => !client.getLastBalance())) {
+            try {
+                // Fires onDidUpdateBalance, which calls update() again with data
+                await this.accounts.getTotalEstimatedBalance(true);
+            } catch (error) {
+                this.post(
+                    `<p class="empty">Failed to load balances: ${escapeHtml(`${error}`)}</p>`
+                );
+            }
+            return;
+        }
+
+        this.panel.title = `Portfolio · ${this.accounts.getActiveLabel()}`;
+
+        if (clients.length === 0) {
+            this.post(
+                '<p class="empty">Configure your Binance API credentials to see your portfolio.</p>'
+            );
+            return;
+        }
+
+        const balances = clients.map(({ client }) => client.getLastBalance()!);
+        const assets = clients.flatMap(({ client }) =>
+            client.getWalletAssets().map((asset) => ({
+                asset,
+                change24h: client.getPriceChangePercent(asset.asset),
+            }))
+        );
+
+        this.post(await this.renderContent(balances, assets));
+    }
+
+    private post(html: string) {
+        this.panel.webview.postMessage({ type: 'update', html });
+    }
+
+    private async renderContent(
+        balances: TotalEstimatedBalance[],
+        assets: { asset: WalletAsset; change24h: number | null }[]
+    ): Promise<string> {
+        const total = balances.reduce((sum, balance) => sum + balance.totalUSDT, 0);
+        const holdings = toHoldings(assets);
+        const mask: Mask = (text) => this.privacy.mask(text);
+
+        const walletSlices: Slice[] = (Object.keys(WALLET_LABELS) as WalletType[])
+            .map((wallet) => ({
+                label: WALLET_LABELS[wallet],
+                value: assets
+                    .filter(({ asset }) => asset.wallet === wallet)
+                    .reduce((sum, { asset }) => sum + (asset.valueUSDT ?? 0), 0),
+            }))
+            .filter((slice) => slice.value !== 0);
+
+        const assetSlices: Slice[] = holdings
+            .slice(0, ALLOCATION_SLICES)
+            .map(({ asset, valueUSDT }) => ({ label: asset, value: valueUSDT }));
+        const other = holdings
+            .slice(ALLOCATION_SLICES)
+            .reduce((sum, holding) => sum + holding.valueUSDT, 0);
+        if (other > 0) {
+            assetSlices.push({ label: 'Other', value: other });
+        }
+
+        const unvalued = [
+            ...new Set(balances.flatMap((balance) => balance.unvaluedAssets.map((u) => u.asset))),
+        ];
+
+        return [
+            `<section class="total">
+                <div class="label">Total Estimated</div>
+                <div class="value">${escapeHtml(mask(await this.formatDisplayTotal(total)))}</div>
+                <div class="sub">${mask(formatCurrency(total, QUOTE_ASSET))} · updated ${new Date().toLocaleTimeString()}</div>
+            </section>`,
+            renderAllocation('Allocation by Asset', assetSlices, mask),
+            renderAllocation('Allocation by Wallet', walletSlices, mask),
+            renderHoldings(holdings.slice(0, TOP_HOLDINGS), total, mask),
+            renderMargin(
+                assets.map(({ asset }) => asset),
+                mask
+            ),
+            unvalued.length > 0
+                ? `<p class="empty">Not valued (no price): ${escapeHtml(unvalued.join(', '))}</p>`
+                : '',
+        ].join('');
+    }
+
+    /**
+     * Total in the display currencies, e.g. `€11,402.10 · 0.190000 BTC`.
+     */
+    private async formatDisplayTotal(totalUSDT: number): Promise<string> {
+        const { text } = await formatInDisplayCurrencies(totalUSDT, (amount, currency) =>
+            this.accounts.convertFromUSDT(amount, currency)
+        );
+        return text;
+    }
+
+    private getHtml(): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); max-width: 960px; }
+    section { margin-bottom: 24px; }
+    h3 { font-weight: 600; margin-bottom: 8px; }
+    .total .label, .total .sub, .empty { color: var(--vscode-descriptionForeground); }
+    .total .value { font-size: 2em; font-weight: 600; }
+    .bar { display: flex; height: 14px; border-radius: 3px; overflow: hidden; background: var(--vscode-editorWidget-border); }
+    .bar span { background: var(--color); }
+    .legend { display: flex; flex-wrap: wrap; gap: 4px 16px; margin-top: 8px; }
+    .legend span::before { content: ''; display: inline-block; width: 10px; height: 10px; margin-right: 6px; background: var(--color); }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: right; padding: 4px 8px; border-bottom: 1px solid var(--vscode-editorWidget-border); }
+    th:first-child, td:first-child { text-align: left; }
+    .up { color: var(--vscode-charts-green); }
+    .down { color: var(--vscode-charts-red); }
+</style>
+</head>
+<body>
+<div id="content"><p class="empty">Loading portfolio...</p></div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    window.addEventListener('message', (event) => {
+        if (event.data.type === 'update') {
+            document.getElementById('content').innerHTML = event.data.html;
+        }
+    });
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        PortfolioDashboardPanel.currentPanel = undefined;
+        this.panel.dispose();
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
+
+/**
+ * Sum positive, valued amounts per asset across wallets and profiles, largest first.
+ * Debt shows up in the margin section instead.
+ */
+function toHoldings(assets: { asset: WalletAsset; change24h: number | null }[]): Holding[] {
+    const holdings: Map<string, Holding> = new Map();
+    for (const { asset, change24h } of assets) {
+        if (asset.valueUSDT === null || asset.valueUSDT <= 0) {
+            continue;
+        }
+        const holding = holdings.get(asset.asset) ?? {
+            asset: asset.asset,
+            amount: 0,
+            valueUSDT: 0,
+            change24h,
+        };
+        holding.amount += asset.amount;
+        holding.valueUSDT += asset.valueUSDT;
+        holdings.set(asset.asset, holding);
+    }
+    return [...holdings.values()].sort((a, b) => b.valueUSDT - a.valueUSDT);
+}
+
+function renderAllocation(title: string, slices: Slice[], mask: Mask): string {
+    const total = slices.reduce((sum, slice) => sum + Math.max(0, slice.value), 0);
+    if (total <= 0) {
+        return '';
+    }
+
+    const share = (value: number) => (Math.max(0, value) / total) * 100;
+    const bar = slices
+        .map(
+            (slice, index) =>
+                `<span style="--color: ${COLORS[index % COLORS.length]}; width: ${share(slice.value).toFixed(2)}%" title="${escapeHtml(slice.label)}"></span>`
+        )
+        .join('');
+    const legend = slices
+        .map(
+            (slice, index) =>
+                `<span style="--color: ${COLORS[index % COLORS.length]}">${escapeHtml(slice.label)} ${share(slice.value).toFixed(1)}% · ${mask(formatCurrency(slice.value, QUOTE_ASSET))}</span>`
+        )
+        .join('');
+
+    return `<section><h3>${title}</h3><div class="bar">${bar}</div><div class="legend">${legend}</div></section>`;
+}
+
+function renderHoldings(holdings: Holding[], total: number, mask: Mask): string {
+    if (holdings.length === 0) {
+        return '';
+    }
+
+    const rows = holdings
+        .map((holding) => {
+            const change =
+                holding.change24h === null
+                    ? '—'
+                    : `<span class="${holding.change24h >= 0 ? 'up' : 'down'}">${holding.change24h >= 0 ? '+' : ''}${holding.change24h.toFixed(2)}%</span>`;
+            const share = total !== 0 ? `${((holding.valueUSDT / total) * 100).toFixed(1)}%` : '—';
+            return `<tr><td>${escapeHtml(holding.asset)}</td><td>${mask(holding.amount.toFixed(8))}</td><td>${mask(formatCurrency(holding.valueUSDT, QUOTE_ASSET))}</td><td>${share}</td><td>${change}</td></tr>`;
+        })
+        .join('');
+
+    return `<section><h3>Top Holdings</h3><table><thead><tr><th>Asset</th><th>Amount</th><th>Value (USD)</th><th>Share</th><th>24h</th></tr></thead><tbody>${rows}</tbody></table></section>`;
+}
+
+/**
+ * Borrowed value against equity across cross and isolated margin.
+ */
+function renderMargin(assets: WalletAsset[], mask: Mask): string {
+    const margin = assets.filter(
+        (asset) => asset.wallet === 'margin' || asset.wallet === 'isolatedMargin'
+    );
+    if (margin.length === 0) {
+        return '';
+    }
+
+    const equity = margin.reduce((sum, asset) => sum + (asset.valueUSDT ?? 0), 0);
+    const debt = margin.reduce((sum, asset) => sum + asset.borrowed * (asset.priceUSDT ?? 0), 0);
+    const level = debt > 0 ? ((equity + debt) / debt).toFixed(2) : '∞';
+
+    return `<section><h3>Margin</h3><table><tbody>
+        <tr><td>Equity (net assets)</td><td>${mask(formatCurrency(equity, QUOTE_ASSET))}</td></tr>
+        <tr><td>Debt (borrowed)</td><td>${mask(formatCurrency(debt, QUOTE_ASSET))}</td></tr>
+        <tr><td>Margin level</td><td>${level}</td></tr>
+    </tbody></table></section>`;
+}
@@ -0,0 +1,257 @@
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { AccountManager } from './accountManager';
+import { WALLET_LABELS } from './core/binanceApi';
+import { BalanceHistory, HISTORY_RANGES, HistoryRange } from './history';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+type Cell = string | number | null;
+
+/**
+ * Tabular data to export; every format is rendered from this.
+ */
+export interface ExportTable {
+    title: string;
+    columns: string[];
+    rows: Cell[][];
+}
+
+const FORMATS: Record<ExportFormat, { label: string; extension: string; language: string }> = {
+    csv: { label: 'CSV', extension: 'csv', language: 'plaintext' },
+    json: { label: 'JSON', extension: 'json', language: 'json' },
+    markdown: { label: 'Markdown table', extension: 'md', language: 'markdown' },
+};
+
+/**
+ * Render a table as CSV (RFC 4180 quoting), JSON (array of row objects) or Markdown.
+ */
+export function formatTable(table: ExportTable, format: ExportFormat): string {
+    switch (format) {
+        case 'csv':
+            return [table.columns, ...table.rows]
+                .map((row) => row.map((cell) => csvCell(cell)).join(','))
+                .join('\n');
+        case 'json':
+            return JSON.stringify(
+                table.rows.map((row) =>
+                    Object.fromEntries(table.columns.map((column, index) => [column, row[index]]))
+                ),
+                null,
+                2
+            );
+        case 'markdown':
+            return [
+                `## ${table.title}`,
+                '',
+                `| ${table.columns.join(' | ')} |`,
+                `| ${table.columns.map(() => '---').join(' | ')} |`,
+                ...table.rows.map(
+                    (row) => `| ${row.map((cell) => markdownCell(cell)).join(' | ')} |`
+                ),
+                '',
+            ].join('\n');
+    }
+}
+
+/**
+ * Current per-asset balances of every configured active profile, freshly fetched.
+ */
+export async function buildBalanceTable(accounts: AccountManager): Promise<ExportTable> {
+    const clients = accounts.getActiveClients().filter(({ client }) => client.isConfigured());
+    const rows: Cell[][] = [];
+
+    for (const { profile, client } of clients) {
+        await client.getTotalEstimatedBalance();
+        for (const asset of client.getWalletAssets()) {
+            rows.push([
+                profile.name,
+                WALLET_LABELS[asset.wallet],
+                asset.symbol ?? null,
+                asset.asset,
+                asset.free,
+                asset.locked,
+                asset.borrowed,
+                asset.amount,
+                asset.priceUSDT,
+                asset.valueUSDT,
+            ]);
+        }
+    }
+
+    return {
+        title: `Binance balances · ${accounts.getActiveLabel()} · ${new Date().toLocaleString()}`,
+        columns: [
+            'profile',
+            'wallet',
+            'pair',
+            'asset',
+            'free',
+            'locked',
+            'borrowed',
+            'amount',
+            'priceUSDT',
+            'valueUSDT',
+        ],
+        rows,
+    };
+}
+
+/**
+ * Stored history snapshots of the active profile selection within a range.
+ */
+export async function buildHistoryTable(
+    accounts: AccountManager,
+    history: BalanceHistory,
+    range: HistoryRange
+): Promise<ExportTable> {
+    const snapshots = await history.getRange(accounts.getActiveProfileId(), range);
+    return {
+        title: `Binance balance history (${range}) · ${accounts.getActiveLabel()}`,
+        columns: [
+            'time',
+            'totalUSDT',
+            'spotUSDT',
+            'marginUSDT',
+            'isolatedMarginUSDT',
+            'usdmFuturesUSDT',
+            'coinmFuturesUSDT',
+        ],
+        rows: snapshots.map((snapshot) => [
+            new Date(snapshot.t).toISOString(),
+            snapshot.total,
+            snapshot.spot,
+            snapshot.margin,
+            snapshot.isolatedMargin,
+            snapshot.usdmFutures,
+            snapshot.coinmFutures,
+        ]),
+    };
+}
+
+/**
+ * Ask what to export, in which format and where to, then write it.
+ */
+export async function exportBalances(
+    accounts: AccountManager,
+    history: BalanceHistory | undefined,
+    outputChannel: vscode.OutputChannel
+) {
+    const sources: (vscode.QuickPickItem & { range?: HistoryRange })[] = [
+        {
+            label: 'Current balances',
+            description: 'Every asset of every wallet with its USDT value',
+        },
+    ];
+    if (history) {
+        for (const range of Object.keys(HISTORY_RANGES) as HistoryRange[]) {
+            const snapshots = await history.getRange(accounts.getActiveProfileId(), range);
+            if (snapshots.length > 0) {
+                sources.push({
+                    label: `History: ${range === 'all' ? 'all time' : range}`,
+                    description: `${snapshots.length} snapshots`,
+                    range,
+                });
+            }
+        }
+    }
+
+    const source = await vscode.window.showQuickPick(sources, {
+        title: 'Export Binance Balances',
+        placeHolder: 'What to export',
+    });
+    if (!source) {
+        return;
+    }
+
+    const format = await vscode.window.showQuickPick(
+        (Object.keys(FORMATS) as ExportFormat[]).map((key) => ({
+            label: FORMATS[key].label,
+            format: key,
+        })),
+        { title: 'Export Format' }
+    );
+    if (!format) {
+        return;
+    }
+
+    const destination = await vscode.window.showQuickPick(
+        [
+            { label: '$(save) Save to file', destination: 'file' as const },
+            { label: '$(clippy) Copy to clipboard', destination: 'clipboard' as const },
+            { label: '$(new-file) Open as untitled document', destination: 'untitled' as const },
+        ],
+        { title: 'Export Destination' }
+    );
+    if (!destination) {
+        return;
+    }
+
+    let table: ExportTable;
+    if (source.range && history) {
+        table = await buildHistoryTable(accounts, history, source.range);
+    } else {
+        if (!accounts.isConfigured()) {
+            vscode.window.showWarningMessage(
+                'Please configure your Binance API credentials first.'
+            );
+            return;
+        }
+        table = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Fetching balances...' },
+            () => buildBalanceTable(accounts)
+        );
+    }
+
+    const content = formatTable(table, format.format);
+    const { extension, language } = FORMATS[format.format];
+
+    switch (destination.destination) {
+        case 'file': {
+            const name = source.range ? `binance-history-${source.range}` : 'binance-balances';
+            const date = new Date().toISOString().slice(0, 10);
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.joinPath(
+                    vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir()),
+                    `${name}-${date}.${extension}`
+                ),
+                filters: { [FORMATS[format.format].label]: [extension] },
+            });
+            if (!uri) {
+                return;
+            }
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            vscode.window.showInformationMessage(
+                `Exported ${table.rows.length} rows to ${uri.fsPath}`
+            );
+            break;
+        }
+        case 'clipboard':
+            await vscode.env.clipboard.writeText(content);
+            vscode.window.showInformationMessage(
+                `Copied ${table.rows.length} rows to the clipboard`
+            );
+            break;
+        case 'untitled': {
+            const document = await vscode.workspace.openTextDocument({ content, language });
+            await vscode.window.showTextDocument(document);
+            break;
+        }
+    }
+
+    outputChannel.appendLine(
+        `Exported ${table.rows.length} rows (${source.label}, ${format.format}) to ${destination.destination}`
+    );
+}
+
+function csvCell(cell: Cell): string {
+    if (cell === null) {
+        return '';
+    }
+    const text = String(cell);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(cell: Cell): string {
+    return cell === null ? '' : String(cell).replace(/\|/g, '\\|');
+}
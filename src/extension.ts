@@ -1,12 +1,74 @@
 import * as vscode from 'vscode';
-import { BinanceApiClient } from './binanceApi';
+import {
+    AccountManager,
+    ALL_PROFILES,
+    combineBalances,
+    Profile,
+    SharedBalances,
+} from './accountManager';
+import { AlertManager, describeRule, promptForAlertRule } from './alerts';
+import {
+    BalanceNode,
+    BalanceTreeProvider,
+    describeOrderCount,
+    formatAmount,
+    getBinanceUrl,
+} from './balanceTree';
+import { toApiError } from './core/apiErrors';
+import {
+    BinanceApiClient,
+    describeUnavailableWallet,
+    OpenOrder,
+    OrderWallet,
+    WALLET_LABELS,
+} from './core/binanceApi';
+import { Credentials } from './core/config';
+import { DEFAULT_MOCK_SERVER_PORT } from './core/endpoints';
+import { CredentialStore, DEFAULT_PROFILE_ID } from './credentials';
+import { PortfolioDashboardPanel } from './dashboardPanel';
+import { exportBalances } from './exporter';
+import { BalanceHistory } from './history';
+import { BalanceHistoryPanel } from './historyPanel';
+import { getEnabledScopes, getRiskyScopes, KeyCheckResult } from './keyCheck';
+import { MockBinanceServer } from './mockServer';
+import { describeOrder, OrdersTreeProvider } from './ordersTree';
+import { AssetPnl, formatPnl, PnlTracker } from './pnl';
+import { PrivacyMode } from './privacy';
 import { BalanceStatusBar } from './statusBar';
+import { TradeHistoryStore } from './tradeHistory';
+import { formatChangePercent, formatPrice, getTradeUrl, WatchlistStatusBar } from './watchlist';
+import { WindowCoordinator } from './windowCoordinator';
 
-let binanceApi: BinanceApiClient;
+/**
+ * Settings that select the key or the servers. Changing one resets every client, since
+ * caches and streams belong to one key on one set of servers.
+ */
+const CONNECTION_SETTINGS = [
+    'apiKey',
+    'apiSecret',
+    'environment',
+    'customRestUrl',
+    'customWebSocketUrl',
+    'customFuturesUrl',
+    'customCoinFuturesUrl',
+    'mockServerPort',
+];
+
+let windowCoordinator: WindowCoordinator<SharedBalances>;
+let accountManager: AccountManager;
 let statusBar: BalanceStatusBar;
+let balanceHistory: BalanceHistory;
+let alertManager: AlertManager;
+let privacyMode: PrivacyMode;
+let balanceTree: BalanceTreeProvider;
+let ordersTree: OrdersTreeProvider;
+let pnlTracker: PnlTracker;
+let watchlist: WatchlistStatusBar;
+let mockServer: MockBinanceServer | undefined;
+let mockServerPort: number | undefined;
 let outputChannel: vscode.OutputChannel;
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
     outputChannel = vscode.window.createOutputChannel('Binance Balance Monitor');
     outputChannel.appendLine('=== Binance Balance Monitor Extension Started ===');
     outputChannel.appendLine(`Extension path: ${context.extensionPath}`);
@@ -14,12 +76,92 @@ export function activate(context: vscode.ExtensionContext) {
 
     console.log('Binance Balance Monitor is now active!');
 
+    await migrateCredentials(context.secrets);
+    await syncMockServer();
+
+    privacyMode = new PrivacyMode(context);
+    context.subscriptions.push(privacyMode);
+
     try {
-        binanceApi = new BinanceApiClient();
-        outputChannel.appendLine('BinanceApiClient created successfully');
+        windowCoordinator = new WindowCoordinator(context.globalStorageUri);
+        outputChannel.appendLine(
+            windowCoordinator.isLeader()
+                ? 'This window loads balances for all windows'
+                : 'Another window loads balances; this window follows it'
+        );
+        windowCoordinator.onDidChangeRole((leader) => {
+            outputChannel.appendLine(
+                leader
+                    ? 'The leading window closed; this window now loads balances'
+                    : 'Another window took over loading balances'
+            );
+            if (leader) {
+                // The window that ran the mock server may be the one that closed
+                syncMockServer();
+            }
+        });
 
-        statusBar = new BalanceStatusBar(binanceApi, outputChannel);
+        accountManager = new AccountManager(context, windowCoordinator);
+        outputChannel.appendLine(
+            `AccountManager created successfully (profile: ${accountManager.getActiveLabel()})`
+        );
+
+        balanceHistory = new BalanceHistory(context.globalStorageUri);
+        accountManager.onDidUpdateBalance(({ profileId, balance }) =>
+            balanceHistory.record(profileId, balance)
+        );
+
+        pnlTracker = new PnlTracker(
+            accountManager,
+            new TradeHistoryStore(context.globalStorageUri),
+            outputChannel
+        );
+
+        statusBar = new BalanceStatusBar(
+            accountManager,
+            outputChannel,
+            privacyMode,
+            balanceHistory,
+            pnlTracker
+        );
         outputChannel.appendLine('BalanceStatusBar created successfully');
+
+        balanceTree = new BalanceTreeProvider(accountManager, privacyMode);
+        const walletsView = vscode.window.createTreeView('binanceBalance.wallets', {
+            treeDataProvider: balanceTree,
+            showCollapseAll: true,
+        });
+        ordersTree = new OrdersTreeProvider(accountManager, privacyMode);
+        const ordersView = vscode.window.createTreeView('binanceBalance.orders', {
+            treeDataProvider: ordersTree,
+            showCollapseAll: true,
+        });
+        context.subscriptions.push(
+            walletsView,
+            ordersView,
+            // The Wallets view links locked amounts to their orders, so both need them
+            watchOrdersWhileVisible(walletsView),
+            watchOrdersWhileVisible(ordersView)
+        );
+
+        alertManager = new AlertManager(
+            context,
+            (symbols) => accountManager.trackSymbols('alerts', symbols),
+            privacyMode,
+            () => windowCoordinator.isLeader()
+        );
+        accountManager.onDidUpdateBalance(({ profileId, balance }) =>
+            alertManager.checkBalance(profileId, balance)
+        );
+        accountManager.onDidUpdateTicker((ticker) => alertManager.checkTicker(ticker));
+        alertManager.onDidChangeActive((rules) => {
+            statusBar.setActiveAlerts(rules.map(describeRule));
+            rules.forEach((rule) =>
+                outputChannel.appendLine(`Alert active: ${describeRule(rule)}`)
+            );
+        });
+
+        watchlist = new WatchlistStatusBar(accountManager, outputChannel);
     } catch (error) {
         outputChannel.appendLine(`Error during initialization: ${error}`);
         vscode.window.showErrorMessage(`Binance Balance Monitor failed to initialize: ${error}`);
@@ -27,7 +169,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     const refreshCommand = vscode.commands.registerCommand('binanceBalance.refresh', () => {
         outputChannel.appendLine('Refresh command executed');
-        binanceApi.refreshConfiguration();
+        accountManager.refreshConfiguration();
         statusBar.refresh();
     });
 
@@ -44,16 +186,209 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    const clearCredentialsCommand = vscode.commands.registerCommand(
+        'binanceBalance.clearCredentials',
+        () => {
+            outputChannel.appendLine('Clear credentials command executed');
+            clearCredentials();
+        }
+    );
+
+    const switchProfileCommand = vscode.commands.registerCommand(
+        'binanceBalance.switchProfile',
+        () => {
+            outputChannel.appendLine('Switch profile command executed');
+            switchProfile();
+        }
+    );
+
+    const addProfileCommand = vscode.commands.registerCommand('binanceBalance.addProfile', () => {
+        outputChannel.appendLine('Add profile command executed');
+        addProfile();
+    });
+
+    const removeProfileCommand = vscode.commands.registerCommand(
+        'binanceBalance.removeProfile',
+        () => {
+            outputChannel.appendLine('Remove profile command executed');
+            removeProfile();
+        }
+    );
+
+    const showHistoryCommand = vscode.commands.registerCommand('binanceBalance.showHistory', () => {
+        outputChannel.appendLine('Show history command executed');
+        BalanceHistoryPanel.createOrShow(balanceHistory, accountManager, privacyMode);
+    });
+
+    const openDashboardCommand = vscode.commands.registerCommand(
+        'binanceBalance.openDashboard',
+        () => {
+            outputChannel.appendLine('Open dashboard command executed');
+            PortfolioDashboardPanel.createOrShow(accountManager, privacyMode);
+        }
+    );
+
+    const exportBalancesCommand = vscode.commands.registerCommand(
+        'binanceBalance.exportBalances',
+        async () => {
+            outputChannel.appendLine('Export balances command executed');
+            try {
+                await exportBalances(accountManager, balanceHistory, outputChannel);
+            } catch (error) {
+                outputChannel.appendLine(`Failed to export balances: ${error}`);
+                vscode.window.showErrorMessage(`Failed to export balances: ${error}`);
+            }
+        }
+    );
+
+    const addAlertCommand = vscode.commands.registerCommand('binanceBalance.addAlert', () => {
+        outputChannel.appendLine('Add alert command executed');
+        addAlert();
+    });
+
+    const listAlertsCommand = vscode.commands.registerCommand('binanceBalance.listAlerts', () => {
+        outputChannel.appendLine('List alerts command executed');
+        listAlerts();
+    });
+
+    const removeAlertCommand = vscode.commands.registerCommand('binanceBalance.removeAlert', () => {
+        outputChannel.appendLine('Remove alert command executed');
+        removeAlert();
+    });
+
+    const copyAmountCommand = vscode.commands.registerCommand(
+        'binanceBalance.copyAmount',
+        (node?: BalanceNode) => {
+            if (node?.kind === 'asset') {
+                vscode.env.clipboard.writeText(formatAmount(node.asset.amount));
+                vscode.window.setStatusBarMessage(
+                    `Copied ${formatAmount(node.asset.amount)} ${node.asset.asset}`,
+                    3000
+                );
+            }
+        }
+    );
+
+    const openOnBinanceCommand = vscode.commands.registerCommand(
+        'binanceBalance.openOnBinance',
+        (node?: BalanceNode) => {
+            if (node?.kind === 'asset') {
+                vscode.env.openExternal(vscode.Uri.parse(getBinanceUrl(node.asset)));
+            }
+        }
+    );
+
+    const showLogsCommand = vscode.commands.registerCommand('binanceBalance.showLogs', () => {
+        outputChannel.show();
+    });
+
+    const togglePrivacyCommand = vscode.commands.registerCommand(
+        'binanceBalance.togglePrivacy',
+        async () => {
+            await privacyMode.toggle();
+            outputChannel.appendLine(`Privacy mode ${privacyMode.isEnabled() ? 'on' : 'off'}`);
+        }
+    );
+
+    const showTradesCommand = vscode.commands.registerCommand('binanceBalance.showTrades', () => {
+        outputChannel.appendLine('Show trades command executed');
+        showTrades();
+    });
+
+    const refreshOrdersCommand = vscode.commands.registerCommand(
+        'binanceBalance.refreshOrders',
+        async () => {
+            outputChannel.appendLine('Refresh orders command executed');
+            try {
+                await accountManager.refreshOpenOrders(true);
+            } catch (error) {
+                outputChannel.appendLine(
+                    `[ERROR] Failed to refresh open orders: ${toApiError(error).message}`
+                );
+            }
+        }
+    );
+
+    const showWatchlistSymbolCommand = vscode.commands.registerCommand(
+        'binanceBalance.showWatchlistSymbol',
+        (symbol?: string) => {
+            outputChannel.appendLine('Show watchlist symbol command executed');
+            showWatchlistSymbol(symbol);
+        }
+    );
+
+    const addWatchlistSymbolCommand = vscode.commands.registerCommand(
+        'binanceBalance.addWatchlistSymbol',
+        () => {
+            outputChannel.appendLine('Add watchlist symbol command executed');
+            addWatchlistSymbol();
+        }
+    );
+
+    const removeWatchlistSymbolCommand = vscode.commands.registerCommand(
+        'binanceBalance.removeWatchlistSymbol',
+        (symbol?: string) => {
+            outputChannel.appendLine('Remove watchlist symbol command executed');
+            removeWatchlistSymbol(symbol);
+        }
+    );
+
     outputChannel.appendLine('All commands registered successfully:');
     outputChannel.appendLine('- binanceBalance.refresh');
     outputChannel.appendLine('- binanceBalance.configure');
     outputChannel.appendLine('- binanceBalance.showBalances');
+    outputChannel.appendLine('- binanceBalance.clearCredentials');
+    outputChannel.appendLine('- binanceBalance.switchProfile');
+    outputChannel.appendLine('- binanceBalance.addProfile');
+    outputChannel.appendLine('- binanceBalance.removeProfile');
+    outputChannel.appendLine('- binanceBalance.showHistory');
+    outputChannel.appendLine('- binanceBalance.openDashboard');
+    outputChannel.appendLine('- binanceBalance.exportBalances');
+    outputChannel.appendLine('- binanceBalance.addAlert');
+    outputChannel.appendLine('- binanceBalance.listAlerts');
+    outputChannel.appendLine('- binanceBalance.removeAlert');
+    outputChannel.appendLine('- binanceBalance.copyAmount');
+    outputChannel.appendLine('- binanceBalance.openOnBinance');
+    outputChannel.appendLine('- binanceBalance.showLogs');
+    outputChannel.appendLine('- binanceBalance.togglePrivacy');
+    outputChannel.appendLine('- binanceBalance.showTrades');
+    outputChannel.appendLine('- binanceBalance.refreshOrders');
+    outputChannel.appendLine('- binanceBalance.showWatchlistSymbol');
+    outputChannel.appendLine('- binanceBalance.addWatchlistSymbol');
+    outputChannel.appendLine('- binanceBalance.removeWatchlistSymbol');
 
     context.subscriptions.push(
         refreshCommand,
         configureCommand,
         showBalancesCommand,
+        clearCredentialsCommand,
+        switchProfileCommand,
+        addProfileCommand,
+        removeProfileCommand,
+        showHistoryCommand,
+        openDashboardCommand,
+        exportBalancesCommand,
+        addAlertCommand,
+        listAlertsCommand,
+        removeAlertCommand,
+        copyAmountCommand,
+        openOnBinanceCommand,
+        showLogsCommand,
+        togglePrivacyCommand,
+        showTradesCommand,
+        refreshOrdersCommand,
+        showWatchlistSymbolCommand,
+        addWatchlistSymbolCommand,
+        removeWatchlistSymbolCommand,
         statusBar,
+        watchlist,
+        balanceTree,
+        ordersTree,
+        balanceHistory,
+        pnlTracker,
+        alertManager,
+        accountManager,
+        windowCoordinator,
         outputChannel
     );
 
@@ -64,12 +399,37 @@ export function activate(context: vscode.ExtensionContext) {
         outputChannel.appendLine(`Error starting StatusBar: ${error}`);
     }
 
-    vscode.workspace.onDidChangeConfiguration((e) => {
-        if (e.affectsConfiguration('binanceBalance')) {
-            outputChannel.appendLine('Configuration changed, refreshing...');
-            binanceApi.refreshConfiguration();
+    // Watchlist, privacy and cost basis settings are applied by their owners; intervals,
+    // history and alert settings are read on every use
+    vscode.workspace.onDidChangeConfiguration(async (e) => {
+        const affects = (...keys: string[]) =>
+            keys.some((key) => e.affectsConfiguration(`binanceBalance.${key}`));
+
+        if (affects('apiKey', 'apiSecret')) {
+            // Credentials typed into settings.json are moved to secret storage right away
+            await migrateCredentials(context.secrets);
+        }
+        if (affects('environment', 'mockServerPort')) {
+            await syncMockServer();
+        }
+        if (affects(...CONNECTION_SETTINGS)) {
+            outputChannel.appendLine('Connection settings changed, reconnecting...');
+            await accountManager.refreshConfiguration();
+            statusBar.refresh();
+            return;
+        }
+
+        if (affects('useUserDataStream')) {
+            accountManager.syncUserDataStreams();
+        }
+        if (affects('includedWallets')) {
             statusBar.refresh();
         }
+        if (
+            affects('statusBarTemplate', 'showIcon', 'displayCurrency', 'secondaryDisplayCurrency')
+        ) {
+            statusBar.rerender();
+        }
     });
 
     outputChannel.appendLine('=== Extension activation completed ===');
@@ -86,11 +446,76 @@ export function activate(context: vscode.ExtensionContext) {
     outputChannel.show(true);
 }
 
-async function showConfigurationDialog() {
+/**
+ * Run the bundled mock server while the `mock` environment is selected, and stop it otherwise.
+ * With several windows open, the first one runs it and the others find its port in use.
+ */
+async function syncMockServer() {
+    const config = vscode.workspace.getConfiguration('binanceBalance');
+    const enabled = config.get<string>('environment', 'mainnet') === 'mock';
+    const port = config.get<number>('mockServerPort', DEFAULT_MOCK_SERVER_PORT);
+
+    if (mockServer && (!enabled || port !== mockServerPort)) {
+        mockServer.dispose();
+        mockServer = undefined;
+        mockServerPort = undefined;
+        outputChannel.appendLine('Mock server stopped');
+    }
+
+    if (!enabled || mockServer) {
+        return;
+    }
+
+    const server = new MockBinanceServer();
+    try {
+        mockServerPort = await server.start(port);
+        mockServer = server;
+        outputChannel.appendLine(`Mock server listening on 127.0.0.1:${mockServerPort}`);
+    } catch (error) {
+        server.dispose();
+        if ((error as NodeJS.ErrnoException).code === 'EADDRINUSE') {
+            outputChannel.appendLine(`Port ${port} in use, using the mock server running there`);
+            return;
+        }
+        outputChannel.appendLine(`Failed to start mock server: ${error}`);
+        vscode.window.showErrorMessage(
+            `Binance mock server could not listen on port ${port}: ${error}`
+        );
+    }
+}
+
+/**
+ * Profile a credential command applies to: the active one, or a picked one in "All accounts" mode.
+ */
+async function pickTargetProfile(title: string): Promise<Profile | undefined> {
+    const activeId = accountManager.getActiveProfileId();
+    if (activeId !== ALL_PROFILES) {
+        return accountManager.getProfile(activeId);
+    }
+
+    const profiles = accountManager.getProfiles();
+    if (profiles.length === 1) {
+        return profiles[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        profiles.map((profile) => ({ label: profile.name, profile })),
+        { title, placeHolder: 'Select a profile' }
+    );
+    return selected?.profile;
+}
+
+async function showConfigurationDialog(target?: Profile) {
     outputChannel.appendLine('Configuration dialog started');
 
+    const profile = target ?? (await pickTargetProfile('Configure Binance API'));
+    if (!profile) {
+        outputChannel.appendLine('Profile selection cancelled');
+        return;
+    }
+
     const apiKey = await vscode.window.showInputBox({
-        prompt: 'Enter your Binance API Key',
+        prompt: `Enter your Binance API Key for "${profile.name}"`,
         password: false,
         ignoreFocusOut: true,
         placeHolder: 'Your Binance API Key...',
@@ -104,7 +529,7 @@ async function showConfigurationDialog() {
     outputChannel.appendLine('API Key provided, requesting secret...');
 
     const apiSecret = await vscode.window.showInputBox({
-        prompt: 'Enter your Binance API Secret',
+        prompt: `Enter your Binance API Secret for "${profile.name}"`,
         password: true,
         ignoreFocusOut: true,
         placeHolder: 'Your Binance API Secret...',
@@ -115,17 +540,25 @@ async function showConfigurationDialog() {
         return;
     }
 
-    outputChannel.appendLine('Both credentials provided, saving configuration...');
+    outputChannel.appendLine('Both credentials provided, checking them with Binance...');
+
+    const check = await checkCredentials(profile, { apiKey, apiSecret });
+    if (!check.save) {
+        outputChannel.appendLine('Credentials not saved');
+        return;
+    }
+
+    outputChannel.appendLine('Saving configuration...');
 
     try {
-        const config = vscode.workspace.getConfiguration('binanceBalance');
-        await config.update('apiKey', apiKey, vscode.ConfigurationTarget.Global);
-        await config.update('apiSecret', apiSecret, vscode.ConfigurationTarget.Global);
+        await accountManager.getCredentialStore(profile.id).store({ apiKey, apiSecret });
 
-        outputChannel.appendLine('Credentials saved successfully');
-        vscode.window.showInformationMessage('Binance API credentials saved successfully!');
+        outputChannel.appendLine(`Credentials saved successfully for profile "${profile.name}"`);
+        vscode.window.showInformationMessage(
+            ['Binance API credentials saved successfully!', ...check.notes].join(' ')
+        );
 
-        binanceApi.refreshConfiguration();
+        await accountManager.refreshConfiguration();
         statusBar.refresh();
         outputChannel.appendLine('Configuration refreshed');
     } catch (error) {
@@ -134,9 +567,428 @@ async function showConfigurationDialog() {
     }
 }
 
+/**
+ * Validate a key pair with Binance and let the user decide about keys that cannot be
+ * verified or have more permissions than needed. Rejected keys are never saved.
+ *
+ * @returns Whether to save the key, and notes about unavailable features for the
+ * confirmation message
+ */
+async function checkCredentials(
+    profile: Profile,
+    credentials: Credentials
+): Promise<{ save: boolean; notes: string[] }> {
+    let result: KeyCheckResult;
+    try {
+        result = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Checking API key...' },
+            () => accountManager.checkCredentials(credentials)
+        );
+    } catch (error) {
+        const apiError = toApiError(error);
+        outputChannel.appendLine(`API key check failed (${apiError.kind}): ${apiError.message}`);
+
+        if (['offline', 'maintenance', 'rateLimited'].includes(apiError.kind)) {
+            // Binance could not be asked; the key itself may well be fine
+            const answer = await vscode.window.showWarningMessage(
+                `The API key could not be verified: ${apiError.message}`,
+                { modal: true, detail: 'Save it without verification?' },
+                'Save Anyway'
+            );
+            return { save: answer === 'Save Anyway', notes: [] };
+        }
+
+        const answer = await vscode.window.showErrorMessage(
+            `Binance rejected the API key for "${profile.name}", so it was not saved: ${apiError.message}`,
+            'Try Again'
+        );
+        if (answer === 'Try Again') {
+            showConfigurationDialog(profile);
+        }
+        return { save: false, notes: [] };
+    }
+
+    const { restrictions, unavailableWallets } = result;
+    const notes: string[] = [];
+
+    if (restrictions) {
+        const scopes = getEnabledScopes(restrictions).join(', ') || 'none';
+        outputChannel.appendLine(
+            `API key permissions: ${scopes}` + (restrictions.ipRestrict ? ' (IP restricted)' : '')
+        );
+        notes.push(`Permissions: ${scopes}.`);
+    } else {
+        notes.push('Its permissions could not be read on this environment.');
+    }
+
+    for (const { wallet, error } of unavailableWallets) {
+        outputChannel.appendLine(
+            `${WALLET_LABELS[wallet]} unavailable (${error.kind}): ${error.message}`
+        );
+    }
+    if (unavailableWallets.length > 0) {
+        const wallets = unavailableWallets.map(
+            ({ wallet, error }) => `${WALLET_LABELS[wallet]} (${describeUnavailableWallet(error)})`
+        );
+        notes.push(`Unavailable: ${wallets.join(', ')}.`);
+    }
+
+    const risky = restrictions ? getRiskyScopes(restrictions) : [];
+    if (risky.length > 0) {
+        const answer = await vscode.window.showWarningMessage(
+            `This API key can do more than read balances: ${risky.join(', ')}`,
+            {
+                modal: true,
+                detail:
+                    'Binance Balance Monitor only needs "Enable Reading". A key that can trade ' +
+                    'or withdraw puts your funds at risk if it ever leaks. Create a read-only ' +
+                    'key in Binance API Management instead, or save this one anyway.',
+            },
+            'Save Anyway'
+        );
+        outputChannel.appendLine(`API key has extra permissions: ${risky.join(', ')}`);
+        return { save: answer === 'Save Anyway', notes };
+    }
+
+    return { save: true, notes };
+}
+
+async function migrateCredentials(secrets: vscode.SecretStorage) {
+    try {
+        // Plaintext credentials from before profiles existed belong to the default profile
+        if (await new CredentialStore(secrets, DEFAULT_PROFILE_ID).migrateFromSettings()) {
+            outputChannel.appendLine('Moved API credentials from settings to secret storage');
+            vscode.window.showInformationMessage(
+                'Binance API credentials were moved from settings to secure storage.'
+            );
+        }
+    } catch (error) {
+        outputChannel.appendLine(`Failed to migrate credentials: ${error}`);
+    }
+}
+
+async function clearCredentials() {
+    const profile = await pickTargetProfile('Clear Binance Credentials');
+    if (!profile) {
+        outputChannel.appendLine('Profile selection cancelled');
+        return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `Remove the stored Binance API credentials of "${profile.name}"?`,
+        { modal: true },
+        'Clear'
+    );
+
+    if (answer !== 'Clear') {
+        outputChannel.appendLine('Clear credentials cancelled');
+        return;
+    }
+
+    try {
+        await accountManager.getCredentialStore(profile.id).clear();
+        outputChannel.appendLine(`Credentials cleared for profile "${profile.name}"`);
+        vscode.window.showInformationMessage('Binance API credentials cleared.');
+
+        await accountManager.refreshConfiguration();
+        statusBar.refresh();
+    } catch (error) {
+        outputChannel.appendLine(`Failed to clear credentials: ${error}`);
+        vscode.window.showErrorMessage(`Failed to clear credentials: ${error}`);
+    }
+}
+
+async function switchProfile() {
+    const activeId = accountManager.getActiveProfileId();
+    const items: (vscode.QuickPickItem & { id: string })[] = [
+        ...accountManager.getProfiles().map((profile) => ({
+            label: `${profile.id === activeId ? '$(check) ' : ''}${profile.name}`,
+            id: profile.id,
+        })),
+        {
+            label: `${activeId === ALL_PROFILES ? '$(check) ' : ''}All accounts`,
+            description: 'Combined total of every profile',
+            id: ALL_PROFILES,
+        },
+        {
+            label: '$(add) Add profile...',
+            id: '',
+        },
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: 'Switch Binance Profile',
+        placeHolder: `Current: ${accountManager.getActiveLabel()}`,
+    });
+
+    if (!selected) {
+        return;
+    }
+
+    if (!selected.id) {
+        await addProfile();
+        return;
+    }
+
+    await accountManager.setActiveProfile(selected.id);
+    outputChannel.appendLine(`Active profile: ${accountManager.getActiveLabel()}`);
+}
+
+async function addProfile() {
+    const name = await vscode.window.showInputBox({
+        prompt: 'Name of the new Binance profile',
+        placeHolder: 'e.g. Personal, Desk',
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+            const trimmed = value.trim();
+            if (!trimmed) {
+                return 'Enter a name';
+            }
+            if (accountManager.getProfiles().some((profile) => profile.name === trimmed)) {
+                return 'A profile with this name already exists';
+            }
+            return undefined;
+        },
+    });
+
+    if (!name) {
+        outputChannel.appendLine('Add profile cancelled');
+        return;
+    }
+
+    const profile = await accountManager.addProfile(name.trim());
+    outputChannel.appendLine(`Profile "${profile.name}" added`);
+
+    await accountManager.setActiveProfile(profile.id);
+    await showConfigurationDialog(profile);
+}
+
+async function removeProfile() {
+    const profiles = accountManager.getProfiles();
+    if (profiles.length === 1) {
+        vscode.window.showWarningMessage('The last Binance profile cannot be removed.');
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        profiles.map((profile) => ({ label: profile.name, profile })),
+        { title: 'Remove Binance Profile', placeHolder: 'Select a profile to remove' }
+    );
+
+    if (!selected) {
+        return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `Remove profile "${selected.profile.name}" and its stored credentials?`,
+        { modal: true },
+        'Remove'
+    );
+
+    if (answer !== 'Remove') {
+        outputChannel.appendLine('Remove profile cancelled');
+        return;
+    }
+
+    try {
+        await accountManager.removeProfile(selected.profile.id);
+        outputChannel.appendLine(`Profile "${selected.profile.name}" removed`);
+    } catch (error) {
+        outputChannel.appendLine(`Failed to remove profile: ${error}`);
+        vscode.window.showErrorMessage(`Failed to remove profile: ${error}`);
+    }
+}
+
+interface BalanceItem {
+    label: string;
+    description: string;
+    detail: string;
+    /** Open orders behind the locked amount, listed when the row is selected */
+    orders?: OpenOrder[];
+}
+
+/**
+ * Build the detailed QuickPick rows (summary plus per-wallet sections) for one profile.
+ */
+async function buildBalanceItems(
+    profile: Profile,
+    client: BinanceApiClient,
+    summaryLabel: string
+): Promise<BalanceItem[]> {
+    const included = client.getIncludedWallets();
+    const [spotBalances, marginBalances, futuresBalances, coinFuturesBalances, estimatedBalance] =
+        await Promise.all([
+            client.getAccountBalance(),
+            client.getMarginAccountBalance(),
+            included.includes('usdmFutures')
+                ? client.getFuturesAccountBalance()
+                : Promise.resolve([]),
+            included.includes('coinmFutures')
+                ? client.getCoinFuturesAccountBalance()
+                : Promise.resolve([]),
+            client.getTotalEstimatedBalance(),
+            // Locked amounts are explained by the open orders
+            client
+                .refreshOpenOrders()
+                .catch((error) =>
+                    outputChannel.appendLine(
+                        `[WARN] Failed to load open orders: ${toApiError(error).message}`
+                    )
+                ),
+        ]);
+    const lockingOrders = (wallet: OrderWallet, asset: string, locked: string) =>
+        parseFloat(locked) > 0 ? client.getOrderModel().getOrdersLocking(wallet, asset) : [];
+    const ordersNote = (orders: OpenOrder[]) =>
+        orders.length > 0 ? ` (${describeOrderCount(orders)})` : '';
+
+    // Needs the wallets of the balance above to know the held assets
+    await pnlTracker.sync();
+    const pnlOf = (wallet: 'spot' | 'margin', asset: string, amount: number) =>
+        pnlTracker.getAssetPnl(profile, {
+            wallet,
+            asset,
+            amount,
+            priceUSDT: client.resolvePrice(asset)?.price ?? null,
+        });
+    const pnlNote = (pnl: AssetPnl | undefined) =>
+        pnl?.unrealized ? ` · uPnL ${formatPnl(pnl.unrealized, privacyMode)}` : '';
+    const costNote = (pnl: AssetPnl | undefined) =>
+        pnl?.basis.averageCost
+            ? `, Avg cost: ${formatPrice(pnl.basis.averageCost)} USDT, ` +
+              `Realized: ${formatPnl({ pnlUSDT: pnl.basis.realizedPnlUSDT }, privacyMode)}`
+            : '';
+
+    const items: BalanceItem[] = [];
+    // Amounts are masked in privacy mode
+    const m = (text: string) => privacyMode.mask(text);
+    const futuresUSDT = estimatedBalance.futuresUSDT + estimatedBalance.futuresUnrealizedPnlUSDT;
+    const coinFuturesUSDT =
+        estimatedBalance.coinFuturesUSDT + estimatedBalance.coinFuturesUnrealizedPnlUSDT;
+
+    // Add summary item
+    const unrealizedTotal = pnlTracker.getUnrealizedTotal(profile);
+    items.push({
+        label: summaryLabel,
+        description:
+            `${m(estimatedBalance.totalUSDT.toFixed(2))} USDT` +
+            (unrealizedTotal ? ` · uPnL ${formatPnl(unrealizedTotal, privacyMode)}` : ''),
+        detail:
+            `Spot: ${m(estimatedBalance.spotUSDT.toFixed(2))} USDT | ` +
+            `Margin: ${m(estimatedBalance.marginUSDT.toFixed(2))} USDT | ` +
+            `Isolated: ${m(estimatedBalance.isolatedMarginUSDT.toFixed(2))} USDT | ` +
+            `USDⓈ-M: ${m(futuresUSDT.toFixed(2))} USDT | ` +
+            `COIN-M: ${m(coinFuturesUSDT.toFixed(2))} USDT`,
+    });
+
+    // Add separator
+    items.push({
+        label: '--- SPOT BALANCES ---',
+        description: '',
+        detail: '',
+    });
+
+    // Add spot balances
+    if (spotBalances.length > 0) {
+        spotBalances.forEach((balance) => {
+            const total = parseFloat(balance.free) + parseFloat(balance.locked);
+            const orders = lockingOrders('spot', balance.asset, balance.locked);
+            const pnl = pnlOf('spot', balance.asset, total);
+            items.push({
+                label: `🟢 ${balance.asset}`,
+                description: `Total: ${m(total.toFixed(8))}${pnlNote(pnl)}`,
+                detail: `Free: ${m(balance.free)}, Locked: ${m(balance.locked)}${ordersNote(orders)}${costNote(pnl)}`,
+                orders,
+            });
+        });
+    }
+
+    // Add margin section if exists
+    if (marginBalances.length > 0) {
+        items.push({
+            label: '--- MARGIN BALANCES ---',
+            description: '',
+            detail: '',
+        });
+
+        marginBalances.forEach((balance) => {
+            const netAsset = parseFloat(balance.netAsset);
+            const orders = lockingOrders('margin', balance.asset, balance.locked);
+            const pnl = pnlOf('margin', balance.asset, netAsset);
+            items.push({
+                label: `🔴 ${balance.asset}`,
+                description: `Net: ${m(netAsset.toFixed(8))}${pnlNote(pnl)}`,
+                detail: `Free: ${m(balance.free)}, Locked: ${m(balance.locked)}${ordersNote(orders)}, Borrowed: ${m(balance.borrowed)}${costNote(pnl)}`,
+                orders,
+            });
+        });
+    }
+
+    // Add futures sections if they exist
+    const futuresSections = [
+        { title: '--- USDⓈ-M FUTURES ---', balances: futuresBalances },
+        { title: '--- COIN-M FUTURES ---', balances: coinFuturesBalances },
+    ];
+    for (const section of futuresSections) {
+        if (section.balances.length === 0) {
+            continue;
+        }
+
+        items.push({
+            label: section.title,
+            description: '',
+            detail: '',
+        });
+
+        section.balances.forEach((balance) => {
+            const walletBalance = parseFloat(balance.walletBalance);
+            items.push({
+                label: `🟡 ${balance.asset}`,
+                description: `Wallet: ${m(walletBalance.toFixed(8))}`,
+                detail: `Unrealized PnL: ${m(balance.unrealizedProfit)}, Available: ${m(balance.availableBalance)}`,
+            });
+        });
+    }
+
+    // Wallets that could not be fetched are named rather than shown as empty
+    if (estimatedBalance.unavailableWallets.length > 0) {
+        items.push({
+            label: '--- UNAVAILABLE WALLETS ---',
+            description: '',
+            detail: '',
+        });
+
+        estimatedBalance.unavailableWallets.forEach((unavailable) => {
+            items.push({
+                label: `⚪ ${WALLET_LABELS[unavailable.wallet]}`,
+                description: describeUnavailableWallet(unavailable),
+                detail: unavailable.message,
+            });
+        });
+    }
+
+    // Assets without any usable price are listed rather than hidden
+    if (estimatedBalance.unvaluedAssets.length > 0) {
+        items.push({
+            label: '--- NOT VALUED (NO PRICE) ---',
+            description: '',
+            detail: '',
+        });
+
+        estimatedBalance.unvaluedAssets.forEach((unvalued) => {
+            items.push({
+                label: `⚪ ${unvalued.asset}`,
+                description: `Amount: ${m(unvalued.amount.toFixed(8))}`,
+                detail: `${WALLET_LABELS[unvalued.wallet]} · no market pair to value it, excluded from the total`,
+            });
+        });
+    }
+
+    return items;
+}
+
 async function showDetailedBalances() {
     try {
-        if (!binanceApi.isConfigured()) {
+        if (!accountManager.isConfigured()) {
             vscode.window.showWarningMessage(
                 'Please configure your Binance API credentials first.'
             );
@@ -150,58 +1002,40 @@ async function showDetailedBalances() {
                 cancellable: false,
             },
             async () => {
-                const [spotBalances, marginBalances, estimatedBalance] = await Promise.all([
-                    binanceApi.getAccountBalance(),
-                    binanceApi.getMarginAccountBalance(),
-                    binanceApi.getTotalEstimatedBalance(),
-                ]);
-
-                const items = [];
-
-                // Add summary item
-                items.push({
-                    label: '📊 TOTAL ESTIMATED',
-                    description: `${estimatedBalance.totalUSDT.toFixed(2)} USDT`,
-                    detail: `Spot: ${estimatedBalance.spotUSDT.toFixed(
-                        2
-                    )} USDT | Margin: ${estimatedBalance.marginUSDT.toFixed(2)} USDT`,
-                });
-
-                // Add separator
-                items.push({
-                    label: '--- SPOT BALANCES ---',
-                    description: '',
-                    detail: '',
-                });
+                const clients = accountManager
+                    .getActiveClients()
+                    .filter(({ client }) => client.isConfigured());
+                let items: BalanceItem[];
 
-                // Add spot balances
-                if (spotBalances.length > 0) {
-                    spotBalances.forEach((balance) => {
-                        const total = parseFloat(balance.free) + parseFloat(balance.locked);
-                        items.push({
-                            label: `🟢 ${balance.asset}`,
-                            description: `Total: ${total.toFixed(8)}`,
-                            detail: `Free: ${balance.free}, Locked: ${balance.locked}`,
-                        });
-                    });
-                }
+                if (accountManager.isAllProfilesMode()) {
+                    // One block per profile, preceded by the combined total
+                    const sections = await Promise.all(
+                        clients.map(({ profile, client }) =>
+                            buildBalanceItems(profile, client, `👤 ${profile.name.toUpperCase()}`)
+                        )
+                    );
+                    const profileBalances = await accountManager.getProfileBalances(true);
+                    const combined = combineBalances(profileBalances.map(({ balance }) => balance));
 
-                // Add margin section if exists
-                if (marginBalances.length > 0) {
-                    items.push({
-                        label: '--- MARGIN BALANCES ---',
-                        description: '',
-                        detail: '',
-                    });
-
-                    marginBalances.forEach((balance) => {
-                        const netAsset = parseFloat(balance.netAsset);
-                        items.push({
-                            label: `🔴 ${balance.asset}`,
-                            description: `Net: ${netAsset.toFixed(8)}`,
-                            detail: `Free: ${balance.free}, Locked: ${balance.locked}, Borrowed: ${balance.borrowed}`,
-                        });
-                    });
+                    items = [
+                        {
+                            label: '📊 TOTAL ESTIMATED (ALL ACCOUNTS)',
+                            description: `${privacyMode.mask(combined.totalUSDT.toFixed(2))} USDT`,
+                            detail: profileBalances
+                                .map(
+                                    ({ profile, balance }) =>
+                                        `${profile.name}: ${privacyMode.mask(balance.totalUSDT.toFixed(2))} USDT`
+                                )
+                                .join(' | '),
+                        },
+                        ...sections.flat(),
+                    ];
+                } else {
+                    items = await buildBalanceItems(
+                        clients[0].profile,
+                        clients[0].client,
+                        '📊 TOTAL ESTIMATED'
+                    );
                 }
 
                 if (items.length === 1) {
@@ -212,10 +1046,19 @@ async function showDetailedBalances() {
 
                 const selected = await vscode.window.showQuickPick(items, {
                     placeHolder: 'Select an asset to view details',
-                    title: 'Total Estimated Balance (Spot + Margin)',
+                    title: `Total Estimated Balance · ${accountManager.getActiveLabel()}`,
                 });
 
-                if (selected && selected.detail) {
+                if (selected?.orders && selected.orders.length > 0) {
+                    await vscode.window.showQuickPick(
+                        selected.orders.map((order) => ({
+                            label: `${order.side} ${order.symbol}`,
+                            description: describeOrder(order, privacyMode),
+                            detail: `${order.type} · order ${order.orderId}`,
+                        })),
+                        { title: `Open orders locking ${selected.label}` }
+                    );
+                } else if (selected && selected.detail) {
                     vscode.window.showInformationMessage(`${selected.label}: ${selected.detail}`);
                 }
             }
@@ -225,17 +1068,260 @@ async function showDetailedBalances() {
     }
 }
 
+async function addAlert() {
+    const condition = await promptForAlertRule();
+    if (!condition) {
+        outputChannel.appendLine('Add alert cancelled');
+        return;
+    }
+
+    const rule = await alertManager.addRule(condition);
+    outputChannel.appendLine(`Alert added: ${describeRule(rule)}`);
+    vscode.window.showInformationMessage(`Binance alert added: ${describeRule(rule)}`);
+}
+
+async function listAlerts() {
+    const rules = alertManager.getRules();
+    const activeIds = new Set(alertManager.getActiveRules().map((rule) => rule.id));
+    const items: (vscode.QuickPickItem & { id: string })[] = [
+        ...rules.map((rule) => ({
+            label: `${activeIds.has(rule.id) ? '$(warning) ' : ''}${describeRule(rule)}`,
+            description: activeIds.has(rule.id) ? 'Active' : undefined,
+            id: rule.id,
+        })),
+        {
+            label: '$(add) Add alert...',
+            id: '',
+        },
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: 'Binance Alerts',
+        placeHolder: rules.length > 0 ? 'Select an alert to remove it' : 'No alerts configured yet',
+    });
+
+    if (!selected) {
+        return;
+    }
+
+    if (!selected.id) {
+        await addAlert();
+        return;
+    }
+
+    await confirmRemoveAlert(selected.id);
+}
+
+async function removeAlert() {
+    const rules = alertManager.getRules();
+    if (rules.length === 0) {
+        vscode.window.showInformationMessage('No Binance alerts configured.');
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        rules.map((rule) => ({ label: describeRule(rule), id: rule.id })),
+        { title: 'Remove Binance Alert' }
+    );
+
+    if (selected) {
+        await confirmRemoveAlert(selected.id);
+    }
+}
+
+async function confirmRemoveAlert(id: string) {
+    const rule = alertManager.getRules().find((candidate) => candidate.id === id);
+    if (!rule) {
+        return;
+    }
+
+    const answer = await vscode.window.showWarningMessage(
+        `Remove the alert "${describeRule(rule)}"?`,
+        { modal: true },
+        'Remove'
+    );
+
+    if (answer === 'Remove') {
+        await alertManager.removeRule(id);
+        outputChannel.appendLine(`Alert removed: ${describeRule(rule)}`);
+    }
+}
+
+async function showWatchlistSymbol(symbol?: string) {
+    const symbols = watchlist.getSymbols();
+    if (!symbol) {
+        if (symbols.length === 0) {
+            await addWatchlistSymbol();
+            return;
+        }
+        symbol = await vscode.window.showQuickPick(symbols, { title: 'Binance Watchlist' });
+        if (!symbol) {
+            return;
+        }
+    }
+
+    const ticker = await watchlist.getTicker(symbol);
+    const actions = {
+        open: '$(link-external) Open on Binance',
+        remove: '$(trash) Remove from watchlist',
+    };
+    const items: vscode.QuickPickItem[] = [
+        ...(ticker
+            ? [
+                  { label: '$(graph) Last price', description: formatPrice(ticker.lastPrice) },
+                  {
+                      label: '$(arrow-swap) 24h change',
+                      description: formatChangePercent(ticker.priceChangePercent),
+                  },
+                  { label: '$(arrow-up) 24h high', description: formatPrice(ticker.highPrice) },
+                  { label: '$(arrow-down) 24h low', description: formatPrice(ticker.lowPrice) },
+                  {
+                      label: '$(pulse) 24h volume',
+                      description: ticker.volume.toLocaleString('en-US', {
+                          maximumFractionDigits: 2,
+                      }),
+                  },
+                  {
+                      label: '$(pulse) 24h quote volume',
+                      description: ticker.quoteVolume.toLocaleString('en-US', {
+                          maximumFractionDigits: 2,
+                      }),
+                  },
+              ]
+            : [{ label: '$(warning) No price data', description: 'See the logs for details' }]),
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        { label: actions.open },
+        ...(symbols.includes(symbol) ? [{ label: actions.remove }] : []),
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, { title: symbol });
+    if (selected?.label === actions.open) {
+        vscode.env.openExternal(vscode.Uri.parse(getTradeUrl(symbol)));
+    } else if (selected?.label === actions.remove) {
+        await removeWatchlistSymbol(symbol);
+    }
+}
+
+async function addWatchlistSymbol() {
+    const input = await vscode.window.showInputBox({
+        prompt: 'Symbol to add to the status bar watchlist',
+        placeHolder: 'e.g. BTCUSDT or ETHBTC',
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+            /^[A-Za-z0-9]{5,20}$/.test(value.trim()) ? undefined : 'Enter a symbol such as BTCUSDT',
+    });
+    if (!input) {
+        outputChannel.appendLine('Add watchlist symbol cancelled');
+        return;
+    }
+
+    const symbol = input.trim().toUpperCase();
+    try {
+        await accountManager.get24hrTickers([symbol]);
+    } catch (error) {
+        const apiError = toApiError(error);
+        outputChannel.appendLine(`[ERROR] Cannot watch ${symbol}: ${apiError.message}`);
+        vscode.window.showErrorMessage(
+            apiError.code === -1121
+                ? `Binance has no symbol ${symbol}.`
+                : `Could not check ${symbol}: ${apiError.message}`
+        );
+        return;
+    }
+
+    await watchlist.addSymbol(symbol);
+    outputChannel.appendLine(`Watchlist symbol added: ${symbol}`);
+}
+
+async function removeWatchlistSymbol(symbol?: string) {
+    if (!symbol) {
+        const symbols = watchlist.getSymbols();
+        if (symbols.length === 0) {
+            vscode.window.showInformationMessage('The Binance watchlist is empty.');
+            return;
+        }
+        symbol = await vscode.window.showQuickPick(symbols, {
+            title: 'Remove from Binance Watchlist',
+        });
+        if (!symbol) {
+            return;
+        }
+    }
+
+    await watchlist.removeSymbol(symbol);
+    outputChannel.appendLine(`Watchlist symbol removed: ${symbol}`);
+}
+
+/**
+ * Keep open orders current while a view is visible.
+ */
+function watchOrdersWhileVisible(view: vscode.TreeView<unknown>): vscode.Disposable {
+    let watch = view.visible ? accountManager.watchOrders() : undefined;
+    const listener = view.onDidChangeVisibility(({ visible }) => {
+        watch?.dispose();
+        watch = visible ? accountManager.watchOrders() : undefined;
+    });
+    return new vscode.Disposable(() => {
+        watch?.dispose();
+        listener.dispose();
+    });
+}
+
+async function showTrades() {
+    const input = await vscode.window.showInputBox({
+        prompt: 'Symbol to show your recent trades of',
+        placeHolder: 'e.g. BTCUSDT',
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+            /^[A-Za-z0-9]{5,20}$/.test(value.trim()) ? undefined : 'Enter a symbol such as BTCUSDT',
+    });
+    if (!input) {
+        outputChannel.appendLine('Show trades cancelled');
+        return;
+    }
+
+    const wallets: OrderWallet[] = ['spot', 'margin', 'isolatedMargin'];
+    const selected = await vscode.window.showQuickPick(
+        wallets.map((wallet) => ({ label: WALLET_LABELS[wallet], wallet })),
+        { title: 'Wallet' }
+    );
+    if (!selected) {
+        return;
+    }
+
+    const symbol = input.trim().toUpperCase();
+    try {
+        await Promise.all(
+            accountManager
+                .getActiveClients()
+                .filter(({ client }) => client.isConfigured())
+                .map(({ client }) => client.refreshTrades(selected.wallet, symbol))
+        );
+        await vscode.commands.executeCommand('binanceBalance.orders.focus');
+    } catch (error) {
+        const apiError = toApiError(error);
+        outputChannel.appendLine(`[ERROR] Failed to load ${symbol} trades: ${apiError.message}`);
+        vscode.window.showErrorMessage(`Failed to load ${symbol} trades: ${apiError.message}`);
+    }
+}
+
 export function deactivate() {
     console.log('Binance Balance Monitor is deactivated.');
     if (outputChannel) {
         outputChannel.appendLine('=== Extension deactivating ===');
     }
-    if (binanceApi) {
-        binanceApi.dispose();
+    if (accountManager) {
+        accountManager.dispose();
+    }
+    if (windowCoordinator) {
+        windowCoordinator.dispose();
     }
     if (statusBar) {
         statusBar.dispose();
     }
+    if (mockServer) {
+        mockServer.dispose();
+    }
     if (outputChannel) {
         outputChannel.appendLine('Extension deactivated');
         outputChannel.dispose();
@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import { TotalEstimatedBalance } from './core/binanceApi';
+
+/**
+ * One stored point of the balance history. All values are in USDT.
+ */
+export interface BalanceSnapshot {
+    /** Capture time (ms since epoch) */
+    t: number;
+    total: number;
+    spot: number;
+    margin: number;
+    isolatedMargin: number;
+    /** USDⓈ-M futures wallet balance plus unrealized PnL */
+    usdmFutures: number;
+    /** COIN-M futures wallet balance plus unrealized PnL */
+    coinmFutures: number;
+}
+
+/**
+ * Time ranges offered by the history chart.
+ */
+export type HistoryRange = '24h' | '7d' | '30d' | 'all';
+
+export const HISTORY_RANGES: Record<HistoryRange, number> = {
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+    '30d': 30 * 24 * 60 * 60 * 1000,
+    all: Infinity,
+};
+
+interface HistoryFile {
+    version: 1;
+    /** Snapshots per profile id (or the "All accounts" id), oldest first */
+    series: Record<string, BalanceSnapshot[]>;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/** Snapshots younger than this keep the configured cadence */
+const FULL_RESOLUTION_AGE = 2 * DAY;
+/** Snapshots younger than this are kept hourly, older ones daily */
+const HOURLY_RESOLUTION_AGE = 90 * DAY;
+
+/**
+ * Persists balance snapshots in the extension's global storage, one series per
+ * profile selection, with downsampling of old data and a retention limit.
+ */
+export class BalanceHistory implements vscode.Disposable {
+    private readonly fileUri: vscode.Uri;
+    private data: HistoryFile = { version: 1, series: {} };
+    private loaded: Promise<void>;
+    /** The last write; every write waits for the one before */
+    private writing: Promise<void> = Promise.resolve();
+    private readonly recordEmitter = new vscode.EventEmitter<string>();
+
+    /**
+     * Fires with the profile id after a snapshot was stored.
+     */
+    readonly onDidRecord = this.recordEmitter.event;
+
+    constructor(private readonly storageUri: vscode.Uri) {
+        this.fileUri = vscode.Uri.joinPath(storageUri, 'balance-history.json');
+        this.loaded = this.load();
+    }
+
+    private async read(): Promise<HistoryFile | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(this.fileUri);
+            const parsed = JSON.parse(Buffer.from(content).toString('utf8')) as HistoryFile;
+            if (parsed.version === 1 && parsed.series) {
+                return parsed;
+            }
+        } catch {
+            // No history yet
+        }
+        return undefined;
+    }
+
+    private async load() {
+        this.data = (await this.read()) ?? this.data;
+    }
+
+    /**
+     * Take in the snapshots other windows stored since the file was read, so the write
+     * that follows keeps them and the interval counts from the latest one of any window.
+     */
+    private async mergeSaved() {
+        const saved = await this.read();
+        if (!saved) {
+            return;
+        }
+        for (const [profileId, snapshots] of Object.entries(saved.series)) {
+            const byTime = new Map(snapshots.map((snapshot) => [snapshot.t, snapshot]));
+            for (const snapshot of this.data.series[profileId] ?? []) {
+                byTime.set(snapshot.t, snapshot);
+            }
+            this.data.series[profileId] = [...byTime.values()].sort((a, b) => a.t - b.t);
+        }
+    }
+
+    private async save() {
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                this.fileUri,
+                Buffer.from(JSON.stringify(this.data), 'utf8')
+            );
+        } catch (error) {
+            console.warn('Failed to save balance history:', error);
+        }
+    }
+
+    /**
+     * Store a snapshot if at least `historyInterval` has passed since the previous one.
+     *
+     * @param profileId - Profile (or "All accounts") the balance belongs to
+     */
+    async record(profileId: string, balance: TotalEstimatedBalance): Promise<void> {
+        await this.loaded;
+
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        const interval = config.get<number>('historyInterval', 300000);
+        if (interval <= 0) {
+            return;
+        }
+
+        if (this.isRecorded(profileId, interval)) {
+            return;
+        }
+
+        const write = this.writing.then(() => this.write(profileId, balance, interval));
+        this.writing = write.then(() => undefined);
+        if (await write) {
+            this.recordEmitter.fire(profileId);
+        }
+    }
+
+    /**
+     * Whether the series has a snapshot younger than `interval`.
+     */
+    private isRecorded(profileId: string, interval: number): boolean {
+        const series = this.data.series[profileId] ?? [];
+        const last = series[series.length - 1];
+        return last !== undefined && Date.now() - last.t < interval;
+    }
+
+    /**
+     * Add a snapshot and save, unless another window or an earlier write stored one
+     * within `interval` in the meantime.
+     *
+     * @returns Whether the snapshot was stored
+     */
+    private async write(
+        profileId: string,
+        balance: TotalEstimatedBalance,
+        interval: number
+    ): Promise<boolean> {
+        await this.mergeSaved();
+        if (this.isRecorded(profileId, interval)) {
+            return false;
+        }
+
+        const now = Date.now();
+        const series = this.data.series[profileId] ?? [];
+        series.push(toSnapshot(balance, now));
+        this.data.series[profileId] = this.compact(series, now);
+        await this.save();
+        return true;
+    }
+
+    /**
+     * Apply retention and downsample: full cadence for two days, hourly up to 90 days,
+     * daily beyond. The last snapshot of each bucket is kept.
+     */
+    private compact(series: BalanceSnapshot[], now: number): BalanceSnapshot[] {
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        const retentionDays = config.get<number>('historyRetentionDays', 365);
+        const cutoff = retentionDays > 0 ? now - retentionDays * DAY : -Infinity;
+
+        const buckets: Map<string, BalanceSnapshot> = new Map();
+        for (const snapshot of series) {
+            if (snapshot.t < cutoff) {
+                continue;
+            }
+
+            const age = now - snapshot.t;
+            let key: string;
+            if (age < FULL_RESOLUTION_AGE) {
+                key = `r${snapshot.t}`;
+            } else if (age < HOURLY_RESOLUTION_AGE) {
+                key = `h${Math.floor(snapshot.t / HOUR)}`;
+            } else {
+                key = `d${Math.floor(snapshot.t / DAY)}`;
+            }
+            buckets.set(key, snapshot);
+        }
+
+        return [...buckets.values()].sort((a, b) => a.t - b.t);
+    }
+
+    /**
+     * Snapshots of a profile within the given range, oldest first.
+     */
+    async getRange(profileId: string, range: HistoryRange): Promise<BalanceSnapshot[]> {
+        await this.loaded;
+        const since = Date.now() - HISTORY_RANGES[range];
+        return (this.data.series[profileId] ?? []).filter((snapshot) => snapshot.t >= since);
+    }
+
+    /**
+     * Total at the start of the local day: the last snapshot before midnight, or the
+     * first one of today when the history starts today. Undefined without history.
+     */
+    getStartOfDayTotal(profileId: string): number | undefined {
+        const series = this.data.series[profileId] ?? [];
+        const midnight = new Date();
+        midnight.setHours(0, 0, 0, 0);
+
+        let baseline: BalanceSnapshot | undefined;
+        for (const snapshot of series) {
+            if (snapshot.t < midnight.getTime()) {
+                baseline = snapshot;
+            } else {
+                baseline = baseline ?? snapshot;
+                break;
+            }
+        }
+        return baseline?.total;
+    }
+
+    /**
+     * Total of the last snapshot at or before `time`. Undefined when the history starts later.
+     */
+    getTotalAt(profileId: string, time: number): number | undefined {
+        const series = this.data.series[profileId] ?? [];
+        let found: BalanceSnapshot | undefined;
+        for (const snapshot of series) {
+            if (snapshot.t > time) {
+                break;
+            }
+            found = snapshot;
+        }
+        return found?.total;
+    }
+
+    dispose() {
+        this.recordEmitter.dispose();
+    }
+}
+
+function toSnapshot(balance: TotalEstimatedBalance, t: number): BalanceSnapshot {
+    return {
+        t,
+        total: balance.totalUSDT,
+        spot: balance.spotUSDT,
+        margin: balance.marginUSDT,
+        isolatedMargin: balance.isolatedMarginUSDT,
+        usdmFutures: balance.futuresUSDT + balance.futuresUnrealizedPnlUSDT,
+        coinmFutures: balance.coinFuturesUSDT + balance.coinFuturesUnrealizedPnlUSDT,
+    };
+}
@@ -0,0 +1,221 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { AccountManager } from './accountManager';
+import { QUOTE_ASSET } from './core/pricing';
+import { formatCurrency } from './currency';
+import { BalanceHistory, BalanceSnapshot, HISTORY_RANGES, HistoryRange } from './history';
+import { PrivacyMode } from './privacy';
+
+type SeriesKey = Exclude<keyof BalanceSnapshot, 't'>;
+
+const SERIES: { key: SeriesKey; label: string; color: string }[] = [
+    { key: 'total', label: 'Total', color: 'var(--vscode-charts-foreground)' },
+    { key: 'spot', label: 'Spot', color: 'var(--vscode-charts-green)' },
+    { key: 'margin', label: 'Cross Margin', color: 'var(--vscode-charts-red)' },
+    { key: 'isolatedMargin', label: 'Isolated Margin', color: 'var(--vscode-charts-orange)' },
+    { key: 'usdmFutures', label: 'USDⓈ-M Futures', color: 'var(--vscode-charts-yellow)' },
+    { key: 'coinmFutures', label: 'COIN-M Futures', color: 'var(--vscode-charts-purple)' },
+];
+
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 360;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 96 };
+
+/** Replaces an amount with the mask while privacy mode is on */
+type Mask = (text: string) => string;
+
+/**
+ * Webview showing the stored balance history of the active profile as a line chart.
+ * A single panel is reused and redrawn whenever a new snapshot is recorded.
+ * In privacy mode the chart keeps its shape but amounts are masked.
+ */
+export class BalanceHistoryPanel implements vscode.Disposable {
+    private static currentPanel: BalanceHistoryPanel | undefined;
+
+    private range: HistoryRange = '7d';
+    private readonly disposables: vscode.Disposable[] = [];
+
+    static createOrShow(history: BalanceHistory, accounts: AccountManager, privacy: PrivacyMode) {
+        if (BalanceHistoryPanel.currentPanel) {
+            BalanceHistoryPanel.currentPanel.panel.reveal();
+            BalanceHistoryPanel.currentPanel.render();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'binanceBalance.history',
+            'Binance Balance History',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        BalanceHistoryPanel.currentPanel = new BalanceHistoryPanel(
+            panel,
+            history,
+            accounts,
+            privacy
+        );
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly history: BalanceHistory,
+        private readonly accounts: AccountManager,
+        private readonly privacy: PrivacyMode
+    ) {
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage(
+            (message: { type: string; range?: HistoryRange }) => {
+                if (message.type === 'range' && message.range && message.range in HISTORY_RANGES) {
+                    this.range = message.range;
+                    this.render();
+                }
+            },
+            null,
+            this.disposables
+        );
+        this.history.onDidRecord(() => this.render(), null, this.disposables);
+        this.accounts.onDidChangeProfile(() => this.render(), null, this.disposables);
+        this.privacy.onDidChange(() => this.render(), null, this.disposables);
+        this.render();
+    }
+
+    private async render() {
+        const profileId = this.accounts.getActiveProfileId();
+        const snapshots = await this.history.getRange(profileId, this.range);
+        this.panel.title = `Balance History · ${this.accounts.getActiveLabel()}`;
+        this.panel.webview.html = this.getHtml(snapshots);
+    }
+
+    private getHtml(snapshots: BalanceSnapshot[]): string {
+        const mask: Mask = (text) => this.privacy.mask(text);
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const buttons = (Object.keys(HISTORY_RANGES) as HistoryRange[])
+            .map(
+                (range) =>
+                    `<button data-range="${range}" class="${range === this.range ? 'active' : ''}">${range === 'all' ? 'All time' : range}</button>`
+            )
+            .join('');
+
+        const body =
+            snapshots.length < 2
+                ? '<p class="empty">Not enough history for this range yet. Snapshots are stored every <code>binanceBalance.historyInterval</code> ms.</p>'
+                : `${renderChart(snapshots, mask)}${renderLegend(snapshots, mask)}`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; margin-right: 4px; cursor: pointer; }
+    button.active { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    svg text { fill: var(--vscode-descriptionForeground); font-size: 11px; }
+    .grid { stroke: var(--vscode-editorWidget-border); stroke-width: 1; }
+    .legend { display: flex; flex-wrap: wrap; gap: 16px; margin-top: 8px; }
+    .legend span::before { content: ''; display: inline-block; width: 10px; height: 10px; margin-right: 6px; background: var(--color); }
+    .empty { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(this.accounts.getActiveLabel())}</h2>
+<div>${buttons}</div>
+${body}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button[data-range]').forEach((button) => {
+        button.addEventListener('click', () => vscode.postMessage({ type: 'range', range: button.dataset.range }));
+    });
+</script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        BalanceHistoryPanel.currentPanel = undefined;
+        this.panel.dispose();
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.disposables.length = 0;
+    }
+}
+
+/**
+ * Render the snapshots as an SVG line chart with one polyline per non-empty series.
+ */
+function renderChart(snapshots: BalanceSnapshot[], mask: Mask): string {
+    const visible = SERIES.filter(({ key }) => snapshots.some((snapshot) => snapshot[key] !== 0));
+    const values = snapshots.flatMap((snapshot) => visible.map(({ key }) => snapshot[key]));
+    const minValue = Math.min(0, ...values);
+    const maxValue = Math.max(...values) || 1;
+    const start = snapshots[0].t;
+    const end = snapshots[snapshots.length - 1].t;
+
+    const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+    const x = (t: number) => PADDING.left + ((t - start) / (end - start || 1)) * plotWidth;
+    const y = (value: number) =>
+        PADDING.top + plotHeight - ((value - minValue) / (maxValue - minValue || 1)) * plotHeight;
+
+    const gridLines = [0, 0.25, 0.5, 0.75, 1]
+        .map((fraction) => {
+            const value = minValue + (maxValue - minValue) * fraction;
+            const lineY = y(value).toFixed(1);
+            return (
+                `<line class="grid" x1="${PADDING.left}" x2="${CHART_WIDTH - PADDING.right}" y1="${lineY}" y2="${lineY}" />` +
+                `<text x="${PADDING.left - 8}" y="${lineY}" text-anchor="end" dominant-baseline="middle">${mask(formatCurrency(value, QUOTE_ASSET))}</text>`
+            );
+        })
+        .join('');
+
+    const lines = visible
+        .map(({ key, color }) => {
+            const points = snapshots
+                .map((snapshot) => `${x(snapshot.t).toFixed(1)},${y(snapshot[key]).toFixed(1)}`)
+                .join(' ');
+            const width = key === 'total' ? 2.5 : 1.5;
+            return `<polyline fill="none" stroke="${color}" stroke-width="${width}" points="${points}" />`;
+        })
+        .join('');
+
+    const axisY = CHART_HEIGHT - 8;
+    const timeLabels =
+        `<text x="${PADDING.left}" y="${axisY}">${formatTime(start)}</text>` +
+        `<text x="${CHART_WIDTH - PADDING.right}" y="${axisY}" text-anchor="end">${formatTime(end)}</text>`;
+
+    return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" preserveAspectRatio="xMidYMid meet">${gridLines}${lines}${timeLabels}</svg>`;
+}
+
+function renderLegend(snapshots: BalanceSnapshot[], mask: Mask): string {
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+
+    const items = SERIES.filter(({ key }) => snapshots.some((snapshot) => snapshot[key] !== 0))
+        .map(({ key, label, color }) => {
+            const change = last[key] - first[key];
+            const sign = change >= 0 ? '+' : '−';
+            // Masked amounts leave the relative change as the only figure
+            const amount = mask(`${sign}${formatCurrency(Math.abs(change), QUOTE_ASSET)}`);
+            const percent =
+                first[key] !== 0
+                    ? `, ${sign}${Math.abs((change / first[key]) * 100).toFixed(2)}%`
+                    : '';
+            return `<span style="--color: ${color}">${label}: ${mask(formatCurrency(last[key], QUOTE_ASSET))} (${amount}${percent})</span>`;
+        })
+        .join('');
+
+    return `<div class="legend">${items}</div>`;
+}
+
+function formatTime(t: number): string {
+    return new Date(t).toLocaleString();
+}
+
+/**
+ * Escape text for the HTML of a webview, e.g. asset names and labels.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(
+        /[&<>"']/g,
+        (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!
+    );
+}
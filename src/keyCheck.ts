@@ -0,0 +1,162 @@
+import * as crypto from 'crypto';
+import { BinanceApiError, toApiError } from './core/apiErrors';
+import { WalletType } from './core/binanceApi';
+import { Credentials } from './core/config';
+import { Endpoints } from './core/endpoints';
+import { RequestScheduler } from './core/requestScheduler';
+import { ServerClock } from './core/serverTime';
+
+/**
+ * Permissions of an API key, as returned by `/sapi/v1/account/apiRestrictions`.
+ */
+export interface ApiRestrictions {
+    ipRestrict: boolean;
+    enableReading: boolean;
+    enableSpotAndMarginTrading: boolean;
+    /** Margin loan, repay and transfer */
+    enableMargin: boolean;
+    enableFutures: boolean;
+    enableVanillaOptions: boolean;
+    enablePortfolioMarginTrading?: boolean;
+    enableWithdrawals: boolean;
+    enableInternalTransfer: boolean;
+    permitsUniversalTransfer: boolean;
+}
+
+/**
+ * Outcome of `checkApiKey` for a key pair that Binance accepted.
+ */
+export interface KeyCheckResult {
+    /** Null when the permissions could not be read, e.g. on testnet */
+    restrictions: ApiRestrictions | null;
+    /** Wallets the key cannot read, with the reason */
+    unavailableWallets: { wallet: WalletType; error: BinanceApiError }[];
+}
+
+/** Display names of the permissions, in the order Binance's API Management lists them */
+const SCOPE_LABELS: [keyof ApiRestrictions, string][] = [
+    ['enableReading', 'Reading'],
+    ['enableSpotAndMarginTrading', 'Spot & Margin Trading'],
+    ['enableMargin', 'Margin Loan, Repay & Transfer'],
+    ['enableFutures', 'Futures'],
+    ['enableVanillaOptions', 'European Options'],
+    ['enablePortfolioMarginTrading', 'Portfolio Margin Trading'],
+    ['enableWithdrawals', 'Withdrawals'],
+    ['enableInternalTransfer', 'Internal Transfer'],
+    ['permitsUniversalTransfer', 'Universal Transfer'],
+];
+
+/** Everything beyond reading; none of it is needed to show balances */
+const RISKY_SCOPES: (keyof ApiRestrictions)[] = [
+    'enableSpotAndMarginTrading',
+    'enableMargin',
+    'enableFutures',
+    'enableVanillaOptions',
+    'enablePortfolioMarginTrading',
+    'enableWithdrawals',
+    'enableInternalTransfer',
+    'permitsUniversalTransfer',
+];
+
+interface WalletProbe {
+    wallet: WalletType;
+    base: 'restBaseUrl' | 'futuresBaseUrl' | 'coinFuturesBaseUrl';
+    path: string;
+    weight: number;
+}
+
+/** Wallet endpoints probed to find out what the key can read */
+const WALLET_PROBES: WalletProbe[] = [
+    { wallet: 'margin', base: 'restBaseUrl', path: '/sapi/v1/margin/account', weight: 10 },
+    { wallet: 'usdmFutures', base: 'futuresBaseUrl', path: '/fapi/v2/account', weight: 5 },
+    { wallet: 'coinmFutures', base: 'coinFuturesBaseUrl', path: '/dapi/v1/account', weight: 5 },
+];
+
+/**
+ * Validate a key pair before it is stored: read the spot account (which any valid key
+ * can), the key's permissions and the margin and futures accounts.
+ *
+ * @throws BinanceApiError when the spot account cannot be read, e.g. `invalidKey`
+ */
+export async function checkApiKey(
+    credentials: Credentials,
+    endpoints: Endpoints,
+    scheduler: RequestScheduler
+): Promise<KeyCheckResult> {
+    const clock = new ServerClock(async () => {
+        const url = `${endpoints.restBaseUrl}/api/v3/time`;
+        const data = await scheduler.get<{ serverTime: number }>({
+            baseUrl: endpoints.restBaseUrl,
+            path: '/api/v3/time',
+            weight: 1,
+            key: url,
+            prepare: () => ({ url }),
+        });
+        return data.serverTime;
+    });
+    // Without a measured offset the local clock is used as is
+    await clock.sync().catch((error) => console.warn('Server time sync failed:', error));
+
+    const signedGet = <T>(baseUrl: string, path: string, weight: number): Promise<T> =>
+        scheduler.get<T>({
+            baseUrl,
+            path,
+            weight,
+            key: `${baseUrl}${path} ${credentials.apiKey}`,
+            prepare: () => {
+                const query = new URLSearchParams({
+                    timestamp: clock.now().toString(),
+                }).toString();
+                const signature = crypto
+                    .createHmac('sha256', credentials.apiSecret)
+                    .update(query)
+                    .digest('hex');
+                return {
+                    url: `${baseUrl}${path}?${query}&signature=${signature}`,
+                    headers: { 'X-MBX-APIKEY': credentials.apiKey },
+                };
+            },
+        });
+
+    await signedGet(endpoints.restBaseUrl, '/api/v3/account', 20);
+
+    const [restrictions, ...probes] = await Promise.all([
+        signedGet<ApiRestrictions>(
+            endpoints.restBaseUrl,
+            '/sapi/v1/account/apiRestrictions',
+            1
+        ).catch((error) => {
+            console.warn('Failed to read API key permissions:', error);
+            return null;
+        }),
+        ...WALLET_PROBES.map(({ wallet, base, path, weight }) =>
+            signedGet(endpoints[base], path, weight).then(
+                () => null,
+                (error) => ({ wallet, error: toApiError(error) })
+            )
+        ),
+    ]);
+
+    return {
+        restrictions,
+        unavailableWallets: probes.filter(
+            (probe): probe is { wallet: WalletType; error: BinanceApiError } => probe !== null
+        ),
+    };
+}
+
+/**
+ * Labels of the permissions the key has.
+ */
+export function getEnabledScopes(restrictions: ApiRestrictions): string[] {
+    return SCOPE_LABELS.filter(([scope]) => restrictions[scope] === true).map(([, label]) => label);
+}
+
+/**
+ * Labels of the permissions beyond reading, which a balance monitor should not have.
+ */
+export function getRiskyScopes(restrictions: ApiRestrictions): string[] {
+    return SCOPE_LABELS.filter(
+        ([scope]) => RISKY_SCOPES.includes(scope) && restrictions[scope] === true
+    ).map(([, label]) => label);
+}
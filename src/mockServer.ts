@@ -0,0 +1,437 @@
+import * as http from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+
+/**
+ * Canned spot balances served by `/api/v3/account`.
+ */
+const SPOT_BALANCES = [
+    { asset: 'BTC', free: '0.25000000', locked: '0.05000000' },
+    { asset: 'ETH', free: '3.20000000', locked: '0.00000000' },
+    { asset: 'BNB', free: '12.00000000', locked: '0.00000000' },
+    { asset: 'USDT', free: '1520.45000000', locked: '100.00000000' },
+    { asset: 'LDUSDC', free: '250.00000000', locked: '0.00000000' },
+    { asset: 'NOPRICE', free: '1000.00000000', locked: '0.00000000' },
+];
+
+const MARGIN_ASSETS = [
+    {
+        asset: 'USDT',
+        free: '800.00000000',
+        locked: '0.00000000',
+        borrowed: '300.00000000',
+        interest: '0.12000000',
+        netAsset: '499.88000000',
+    },
+    {
+        asset: 'ETH',
+        free: '0.50000000',
+        locked: '0.00000000',
+        borrowed: '0.00000000',
+        interest: '0.00000000',
+        netAsset: '0.50000000',
+    },
+];
+
+const ISOLATED_ASSETS = [
+    {
+        symbol: 'BTCUSDT',
+        baseAsset: {
+            asset: 'BTC',
+            free: '0.01000000',
+            locked: '0.00000000',
+            borrowed: '0.00000000',
+            interest: '0.00000000',
+            netAsset: '0.01000000',
+        },
+        quoteAsset: {
+            asset: 'USDT',
+            free: '400.00000000',
+            locked: '0.00000000',
+            borrowed: '200.00000000',
+            interest: '0.05000000',
+            netAsset: '199.95000000',
+        },
+    },
+];
+
+const USDM_FUTURES_ASSETS = [
+    {
+        asset: 'USDT',
+        walletBalance: '1000.00000000',
+        unrealizedProfit: '25.50000000',
+        marginBalance: '1025.50000000',
+        availableBalance: '900.00000000',
+    },
+];
+
+const COINM_FUTURES_ASSETS = [
+    {
+        asset: 'BTC',
+        walletBalance: '0.02000000',
+        unrealizedProfit: '-0.00050000',
+        marginBalance: '0.01950000',
+        availableBalance: '0.01500000',
+    },
+];
+
+/**
+ * Canned open spot orders; they account for the locked BTC and USDT of `SPOT_BALANCES`.
+ */
+const OPEN_ORDERS = [
+    {
+        symbol: 'BTCUSDT',
+        orderId: 1001,
+        side: 'SELL',
+        type: 'LIMIT',
+        price: '70000.00000000',
+        stopPrice: '0.00000000',
+        origQty: '0.08000000',
+        executedQty: '0.03000000',
+        time: Date.now() - 2 * 60 * 60 * 1000,
+    },
+    {
+        symbol: 'BNBUSDT',
+        orderId: 1002,
+        side: 'BUY',
+        type: 'LIMIT',
+        price: '500.00000000',
+        stopPrice: '0.00000000',
+        origQty: '0.20000000',
+        executedQty: '0.00000000',
+        time: Date.now() - 15 * 60 * 1000,
+    },
+];
+
+/** Canned fills served by the `myTrades` endpoints; they give BTC and ETH a cost basis */
+const TRADES = [
+    {
+        symbol: 'BTCUSDT',
+        id: 501,
+        orderId: 1001,
+        price: '70000.00000000',
+        qty: '0.03000000',
+        quoteQty: '2100.00000000',
+        commission: '2.10000000',
+        commissionAsset: 'USDT',
+        time: Date.now() - 60 * 60 * 1000,
+        isBuyer: false,
+        isMaker: true,
+    },
+    {
+        symbol: 'BTCUSDT',
+        id: 480,
+        orderId: 990,
+        price: '62000.00000000',
+        qty: '0.10000000',
+        quoteQty: '6200.00000000',
+        commission: '0.00010000',
+        commissionAsset: 'BTC',
+        time: Date.now() - 3 * 24 * 60 * 60 * 1000,
+        isBuyer: true,
+        isMaker: false,
+    },
+    {
+        symbol: 'ETHUSDT',
+        id: 312,
+        orderId: 870,
+        price: '2800.00000000',
+        qty: '3.20000000',
+        quoteQty: '8960.00000000',
+        commission: '0.00320000',
+        commissionAsset: 'ETH',
+        time: Date.now() - 10 * 24 * 60 * 60 * 1000,
+        isBuyer: true,
+        isMaker: false,
+    },
+];
+
+/** A read-only key, as the extension recommends */
+const API_RESTRICTIONS = {
+    ipRestrict: false,
+    createTime: 1700000000000,
+    enableReading: true,
+    enableSpotAndMarginTrading: false,
+    enableMargin: false,
+    enableFutures: false,
+    enableVanillaOptions: false,
+    enablePortfolioMarginTrading: false,
+    enableWithdrawals: false,
+    enableInternalTransfer: false,
+    permitsUniversalTransfer: false,
+};
+
+/** Starting prices; they drift a little with every ticker tick */
+const INITIAL_PRICES: Record<string, number> = {
+    BTCUSDT: 65000,
+    ETHUSDT: 3200,
+    BNBUSDT: 580,
+    USDCUSDT: 1,
+    ETHBTC: 0.0492,
+    BNBBTC: 0.00892,
+};
+
+/** Base and quote asset of every symbol in `INITIAL_PRICES`, served by `/api/v3/exchangeInfo` */
+const SYMBOL_ASSETS: Record<string, [string, string]> = {
+    BTCUSDT: ['BTC', 'USDT'],
+    ETHUSDT: ['ETH', 'USDT'],
+    BNBUSDT: ['BNB', 'USDT'],
+    USDCUSDT: ['USDC', 'USDT'],
+    ETHBTC: ['ETH', 'BTC'],
+    BNBBTC: ['BNB', 'BTC'],
+};
+
+/** Interval between ticker events on the combined stream */
+const TICK_INTERVAL = 1000;
+
+/**
+ * A local stand-in for the Binance REST and WebSocket APIs with canned account, margin,
+ * futures and ticker data. Requests are neither authenticated nor rate limited.
+ *
+ * Used by the `mock` environment so the whole refresh → status bar flow runs offline,
+ * and usable from automated tests, which can move prices and push user data events.
+ */
+export class MockBinanceServer {
+    private server: http.Server | null = null;
+    private wss: WebSocketServer | null = null;
+    private prices: Map<string, number> = new Map(Object.entries(INITIAL_PRICES));
+    private openPrices: Map<string, number> = new Map(Object.entries(INITIAL_PRICES));
+    private streamClients: Map<WebSocket, Set<string>> = new Map();
+    private userDataClients: Set<WebSocket> = new Set();
+    private tickTimer?: NodeJS.Timeout;
+    private listenKeyCounter = 0;
+
+    /**
+     * Listen on `127.0.0.1`.
+     *
+     * @param port - Port to listen on; 0 picks a free one
+     * @returns The port actually used
+     */
+    async start(port = 0): Promise<number> {
+        const server = http.createServer((request, response) =>
+            this.handleRequest(request, response)
+        );
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => resolve());
+        });
+        this.server = server;
+
+        // Attached once listening: it re-emits listen errors, which would go unhandled
+        this.wss = new WebSocketServer({ server });
+        this.wss.on('connection', (ws, request) => this.handleConnection(ws, request.url ?? ''));
+        this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL);
+
+        const address = server.address();
+        return typeof address === 'object' && address ? address.port : port;
+    }
+
+    /**
+     * Set a symbol's price; subscribers receive it with the next tick.
+     */
+    setPrice(symbol: string, price: number) {
+        this.prices.set(symbol, price);
+        if (!this.openPrices.has(symbol)) {
+            this.openPrices.set(symbol, price);
+        }
+    }
+
+    /**
+     * Send an event (e.g. `outboundAccountPosition`) to every user data stream connection.
+     */
+    sendUserDataEvent(event: object) {
+        const message = JSON.stringify(event);
+        this.userDataClients.forEach((ws) => ws.send(message));
+    }
+
+    private handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+        const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+        const reply = (status: number, body: unknown) => {
+            response.writeHead(status, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify(body));
+        };
+
+        switch (`${request.method} ${url.pathname}`) {
+            case 'GET /api/v3/ping':
+                return reply(200, {});
+            case 'GET /api/v3/time':
+                return reply(200, { serverTime: Date.now() });
+            case 'GET /api/v3/account':
+                return reply(200, {
+                    updateTime: Date.now(),
+                    balances: SPOT_BALANCES,
+                });
+            case 'GET /sapi/v1/account/apiRestrictions':
+                return reply(200, API_RESTRICTIONS);
+            case 'GET /sapi/v1/margin/account':
+                return reply(200, { userAssets: MARGIN_ASSETS });
+            case 'GET /sapi/v1/margin/isolated/account':
+                return reply(200, { assets: ISOLATED_ASSETS });
+            case 'GET /fapi/v2/account':
+                return reply(200, { assets: USDM_FUTURES_ASSETS });
+            case 'GET /dapi/v1/account':
+                return reply(200, { assets: COINM_FUTURES_ASSETS });
+            case 'GET /api/v3/ticker/price': {
+                const symbol = url.searchParams.get('symbol');
+                if (symbol) {
+                    const price = this.prices.get(symbol.toUpperCase());
+                    return price === undefined
+                        ? reply(400, { code: -1121, msg: 'Invalid symbol.' })
+                        : reply(200, { symbol, price: price.toString() });
+                }
+                return reply(
+                    200,
+                    [...this.prices].map(([s, price]) => ({ symbol: s, price: price.toString() }))
+                );
+            }
+            case 'GET /api/v3/ticker/24hr': {
+                const param = url.searchParams.get('symbols');
+                const symbols: string[] = param ? JSON.parse(param) : [...this.prices.keys()];
+                const unknown = symbols.find((s) => !this.prices.has(s.toUpperCase()));
+                return unknown
+                    ? reply(400, { code: -1121, msg: 'Invalid symbol.' })
+                    : reply(
+                          200,
+                          symbols.map((s) => this.ticker24hr(s.toUpperCase()))
+                      );
+            }
+            case 'GET /api/v3/exchangeInfo': {
+                const param = url.searchParams.get('symbols');
+                const symbols: string[] = param ? JSON.parse(param) : Object.keys(SYMBOL_ASSETS);
+                const unknown = symbols.find((s) => !(s.toUpperCase() in SYMBOL_ASSETS));
+                return unknown
+                    ? reply(400, { code: -1121, msg: 'Invalid symbol.' })
+                    : reply(200, {
+                          symbols: symbols.map((s) => {
+                              const [baseAsset, quoteAsset] = SYMBOL_ASSETS[s.toUpperCase()];
+                              return { symbol: s.toUpperCase(), baseAsset, quoteAsset };
+                          }),
+                      });
+            }
+            case 'GET /api/v3/openOrders':
+                return reply(200, OPEN_ORDERS);
+            case 'GET /sapi/v1/margin/openOrders':
+                return reply(200, []);
+            case 'GET /api/v3/myTrades':
+            case 'GET /sapi/v1/margin/myTrades': {
+                const symbol = url.searchParams.get('symbol');
+                const fromId = Number(url.searchParams.get('fromId') ?? 0);
+                return reply(
+                    200,
+                    url.pathname.startsWith('/api/')
+                        ? TRADES.filter(
+                              (trade) => trade.symbol === symbol && trade.id >= fromId
+                          ).sort((a, b) => a.id - b.id)
+                        : []
+                );
+            }
+            case 'POST /api/v3/userDataStream':
+                return reply(200, { listenKey: `mock-listen-key-${++this.listenKeyCounter}` });
+            case 'PUT /api/v3/userDataStream':
+            case 'DELETE /api/v3/userDataStream':
+                return reply(200, {});
+            default:
+                return reply(404, { code: -1, msg: `Mock server has no route ${url.pathname}` });
+        }
+    }
+
+    private handleConnection(ws: WebSocket, path: string) {
+        if (path.startsWith('/ws/')) {
+            this.userDataClients.add(ws);
+            ws.on('close', () => this.userDataClients.delete(ws));
+            return;
+        }
+
+        if (!path.startsWith('/stream')) {
+            ws.close();
+            return;
+        }
+
+        const streams = new Set<string>();
+        this.streamClients.set(ws, streams);
+        ws.on('close', () => this.streamClients.delete(ws));
+        ws.on('message', (data: string) => {
+            try {
+                const { method, params, id } = JSON.parse(data) as {
+                    method: string;
+                    params: string[];
+                    id: number;
+                };
+                if (method === 'SUBSCRIBE') {
+                    params.forEach((stream) => streams.add(stream));
+                } else if (method === 'UNSUBSCRIBE') {
+                    params.forEach((stream) => streams.delete(stream));
+                }
+                ws.send(JSON.stringify({ result: null, id }));
+            } catch {
+                ws.send(JSON.stringify({ error: { code: 2, msg: 'Invalid request' } }));
+            }
+        });
+    }
+
+    /**
+     * 24h statistics of a symbol, measured against its price when the server started.
+     */
+    private ticker24hr(symbol: string) {
+        const price = this.prices.get(symbol) ?? 0;
+        const open = this.openPrices.get(symbol) ?? price;
+        return {
+            symbol,
+            lastPrice: price.toString(),
+            priceChangePercent: (open ? ((price - open) / open) * 100 : 0).toFixed(3),
+            highPrice: Math.max(price, open).toString(),
+            lowPrice: Math.min(price, open).toString(),
+            volume: '1000',
+            quoteVolume: (1000 * price).toString(),
+        };
+    }
+
+    /**
+     * Move every price by up to ±0.1% and push tickers for subscribed streams.
+     */
+    private tick() {
+        for (const [symbol, price] of this.prices) {
+            if (symbol !== 'USDCUSDT') {
+                this.prices.set(symbol, price * (1 + (Math.random() - 0.5) * 0.002));
+            }
+        }
+
+        for (const [ws, streams] of this.streamClients) {
+            for (const stream of streams) {
+                const symbol = stream.replace(/@ticker$/, '').toUpperCase();
+                if (!this.prices.has(symbol)) {
+                    continue;
+                }
+                const ticker = this.ticker24hr(symbol);
+                ws.send(
+                    JSON.stringify({
+                        stream,
+                        data: {
+                            e: '24hrTicker',
+                            E: Date.now(),
+                            s: symbol,
+                            c: ticker.lastPrice,
+                            P: ticker.priceChangePercent,
+                            h: ticker.highPrice,
+                            l: ticker.lowPrice,
+                            v: ticker.volume,
+                            q: ticker.quoteVolume,
+                        },
+                    })
+                );
+            }
+        }
+    }
+
+    dispose() {
+        if (this.tickTimer) {
+            clearInterval(this.tickTimer);
+        }
+        this.wss?.clients.forEach((ws) => ws.terminate());
+        this.wss?.close();
+        this.wss = null;
+        this.server?.close();
+        this.server = null;
+        this.streamClients.clear();
+        this.userDataClients.clear();
+    }
+}
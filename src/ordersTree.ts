@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import { AccountManager, Profile } from './accountManager';
+import { formatAmount } from './balanceTree';
+import { toApiError } from './core/apiErrors';
+import {
+    AccountTrade,
+    BinanceApiClient,
+    OpenOrder,
+    OrderWallet,
+    WALLET_LABELS,
+} from './core/binanceApi';
+import { getFilledPercent } from './core/orderModel';
+import { PrivacyMode } from './privacy';
+import { formatAgo } from './statusTemplate';
+import { formatPrice } from './watchlist';
+
+/**
+ * A node of the orders tree. Profiles only appear in "All accounts" mode.
+ */
+export type OrdersNode =
+    | { kind: 'profile'; profile: Profile; client: BinanceApiClient }
+    | { kind: 'openOrders'; profile: Profile; client: BinanceApiClient }
+    | { kind: 'trades'; profile: Profile; client: BinanceApiClient }
+    | {
+          kind: 'tradeSymbol';
+          profile: Profile;
+          client: BinanceApiClient;
+          wallet: OrderWallet;
+          symbol: string;
+      }
+    | { kind: 'order'; order: OpenOrder }
+    | { kind: 'trade'; trade: AccountTrade }
+    | { kind: 'message'; text: string; icon: string };
+
+/**
+ * Sidebar view of the open spot and margin orders and the latest fills per symbol.
+ *
+ * Open orders are kept current by `AccountManager.watchOrders` while the view is visible.
+ * Fills of a symbol are loaded when its node is first expanded and extended by fills
+ * from the user data stream.
+ */
+export class OrdersTreeProvider implements vscode.TreeDataProvider<OrdersNode>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<OrdersNode | undefined>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private readonly accounts: AccountManager,
+        private readonly privacy: PrivacyMode
+    ) {
+        this.disposables.push(
+            this.accounts.onDidChangeOrders(() => this.changeEmitter.fire(undefined)),
+            this.accounts.onDidChangeProfile(() => this.changeEmitter.fire(undefined)),
+            this.privacy.onDidChange(() => this.changeEmitter.fire(undefined))
+        );
+    }
+
+    async getChildren(node?: OrdersNode): Promise<OrdersNode[]> {
+        if (!node) {
+            const clients = this.accounts
+                .getActiveClients()
+                .filter(({ client }) => client.isConfigured());
+
+            if (this.accounts.isAllProfilesMode()) {
+                return clients.map(({ profile, client }) => ({ kind: 'profile', profile, client }));
+            }
+            return clients.length > 0 ? sectionNodes(clients[0].profile, clients[0].client) : [];
+        }
+
+        switch (node.kind) {
+            case 'profile':
+                return sectionNodes(node.profile, node.client);
+            case 'openOrders':
+                return this.getOrderNodes(node.client);
+            case 'trades': {
+                const symbols = node.client.getOrderModel().getTradeSymbols();
+                return symbols.length > 0
+                    ? symbols.map(({ wallet, symbol }) => ({
+                          kind: 'tradeSymbol',
+                          profile: node.profile,
+                          client: node.client,
+                          wallet,
+                          symbol,
+                      }))
+                    : [
+                          {
+                              kind: 'message',
+                              text: 'Use "Show Recent Trades" to add a symbol',
+                              icon: 'info',
+                          },
+                      ];
+            }
+            case 'tradeSymbol':
+                return this.getTradeNodes(node.client, node.wallet, node.symbol);
+            default:
+                return [];
+        }
+    }
+
+    private getOrderNodes(client: BinanceApiClient): OrdersNode[] {
+        const error = this.accounts.getOrderError();
+        const model = client.getOrderModel();
+        if (!model.isLoaded('spot')) {
+            return [
+                error
+                    ? { kind: 'message', text: `Failed to load orders: ${error}`, icon: 'error' }
+                    : { kind: 'message', text: 'Loading...', icon: 'loading~spin' },
+            ];
+        }
+
+        const orders = model.getOrders();
+        return [
+            ...(error
+                ? [{ kind: 'message' as const, text: `Refresh failed: ${error}`, icon: 'warning' }]
+                : []),
+            ...(orders.length > 0
+                ? orders.map((order) => ({ kind: 'order' as const, order }))
+                : [{ kind: 'message' as const, text: 'No open orders', icon: 'check' }]),
+        ];
+    }
+
+    private async getTradeNodes(
+        client: BinanceApiClient,
+        wallet: OrderWallet,
+        symbol: string
+    ): Promise<OrdersNode[]> {
+        const model = client.getOrderModel();
+        if (!model.getTrades(wallet, symbol)) {
+            try {
+                await client.refreshTrades(wallet, symbol);
+            } catch (error) {
+                return [
+                    {
+                        kind: 'message',
+                        text: `Failed to load trades: ${toApiError(error).message}`,
+                        icon: 'error',
+                    },
+                ];
+            }
+        }
+
+        const trades = model.getTrades(wallet, symbol) ?? [];
+        return trades.length > 0
+            ? trades.map((trade) => ({ kind: 'trade', trade }))
+            : [{ kind: 'message', text: 'No trades', icon: 'info' }];
+    }
+
+    getTreeItem(node: OrdersNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'profile': {
+                const item = new vscode.TreeItem(
+                    node.profile.name,
+                    vscode.TreeItemCollapsibleState.Expanded
+                );
+                item.id = node.profile.id;
+                item.iconPath = new vscode.ThemeIcon('account');
+                return item;
+            }
+            case 'openOrders': {
+                const item = new vscode.TreeItem(
+                    'Open Orders',
+                    vscode.TreeItemCollapsibleState.Expanded
+                );
+                item.id = `${node.profile.id}/openOrders`;
+                const model = node.client.getOrderModel();
+                item.description = model.isLoaded('spot')
+                    ? model.getOrders().length.toString()
+                    : undefined;
+                item.iconPath = new vscode.ThemeIcon('list-unordered');
+                return item;
+            }
+            case 'trades': {
+                const item = new vscode.TreeItem(
+                    'Recent Trades',
+                    vscode.TreeItemCollapsibleState.Expanded
+                );
+                item.id = `${node.profile.id}/trades`;
+                item.iconPath = new vscode.ThemeIcon('history');
+                return item;
+            }
+            case 'tradeSymbol': {
+                const item = new vscode.TreeItem(
+                    node.symbol,
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.id = `${node.profile.id}/trades/${node.wallet}/${node.symbol}`;
+                item.description = WALLET_LABELS[node.wallet];
+                item.iconPath = new vscode.ThemeIcon('arrow-swap');
+                item.contextValue = 'binanceTradeSymbol';
+                return item;
+            }
+            case 'order':
+                return orderItem(node.order, this.privacy);
+            case 'trade':
+                return tradeItem(node.trade, this.privacy);
+            case 'message': {
+                const item = new vscode.TreeItem(node.text, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon(node.icon);
+                return item;
+            }
+        }
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
+
+/**
+ * Tree item of an open order: side and symbol, quantity, price, filled share and age.
+ * Also used below locked assets in the Wallets view.
+ */
+export function orderItem(order: OpenOrder, privacy: PrivacyMode): vscode.TreeItem {
+    const amount = (value: number) => privacy.mask(formatAmount(value));
+    const filled = getFilledPercent(order);
+    const price = order.price > 0 ? formatPrice(order.price) : 'market';
+
+    const item = new vscode.TreeItem(
+        `${order.side} ${order.symbol}`,
+        vscode.TreeItemCollapsibleState.None
+    );
+    item.description = describeOrder(order, privacy);
+    item.iconPath = sideIcon(order.side);
+    item.contextValue = 'binanceOrder';
+
+    const lines = [
+        `${order.side} ${order.type} ${order.symbol} · ${WALLET_LABELS[order.wallet]}`,
+        `Price: ${price}`,
+        ...(order.stopPrice > 0 ? [`Stop price: ${formatPrice(order.stopPrice)}`] : []),
+        `Quantity: ${amount(order.origQty)}`,
+        `Filled: ${amount(order.executedQty)} (${filled.toFixed(2)}%)`,
+        `Created: ${new Date(order.time).toLocaleString()}`,
+        `Order ID: ${order.orderId}`,
+    ];
+    item.tooltip = lines.join('\n');
+    return item;
+}
+
+/**
+ * Quantity, price, filled share and age of an order, e.g. `0.08 @ 70,000.00 · 37% filled · 2h ago`.
+ */
+export function describeOrder(order: OpenOrder, privacy: PrivacyMode): string {
+    const price = order.price > 0 ? formatPrice(order.price) : 'market';
+    return (
+        `${privacy.mask(formatAmount(order.origQty))} @ ${price} · ` +
+        `${getFilledPercent(order).toFixed(0)}% filled · ${formatAgo(order.time)}`
+    );
+}
+
+function tradeItem(trade: AccountTrade, privacy: PrivacyMode): vscode.TreeItem {
+    const amount = (value: number) => privacy.mask(formatAmount(value));
+    const item = new vscode.TreeItem(
+        `${trade.side} ${amount(trade.qty)}`,
+        vscode.TreeItemCollapsibleState.None
+    );
+    item.description = `@ ${formatPrice(trade.price)} · ${formatAgo(trade.time)}`;
+    item.iconPath = sideIcon(trade.side);
+    item.contextValue = 'binanceTrade';
+
+    const lines = [
+        `${trade.side} ${trade.symbol} · ${WALLET_LABELS[trade.wallet]}`,
+        `Price: ${formatPrice(trade.price)}`,
+        `Quantity: ${amount(trade.qty)}`,
+        `Quote quantity: ${amount(trade.quoteQty)}`,
+        `Fee: ${amount(trade.commission)} ${trade.commissionAsset} (${trade.isMaker ? 'maker' : 'taker'})`,
+        `Time: ${new Date(trade.time).toLocaleString()}`,
+        `Order ID: ${trade.orderId}`,
+    ];
+    item.tooltip = lines.join('\n');
+    return item;
+}
+
+function sectionNodes(profile: Profile, client: BinanceApiClient): OrdersNode[] {
+    return [
+        { kind: 'openOrders', profile, client },
+        { kind: 'trades', profile, client },
+    ];
+}
+
+function sideIcon(side: 'BUY' | 'SELL'): vscode.ThemeIcon {
+    return side === 'BUY'
+        ? new vscode.ThemeIcon('arrow-up', new vscode.ThemeColor('charts.green'))
+        : new vscode.ThemeIcon('arrow-down', new vscode.ThemeColor('charts.red'));
+}
@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import { AccountManager, Profile } from './accountManager';
+import { toApiError } from './core/apiErrors';
+import { AccountTrade, BinanceApiClient, WalletAsset } from './core/binanceApi';
+import { isUsdAsset, QUOTE_ASSET } from './core/pricing';
+import {
+    BasisTrade,
+    computeCostBasis,
+    CostBasis,
+    CostBasisMethod,
+    getUnrealizedPnl,
+} from './costBasis';
+import { formatCurrency } from './currency';
+import { PrivacyMode } from './privacy';
+import { TradeHistoryStore } from './tradeHistory';
+
+/** Minimum time between two trade syncs of an account triggered by balance updates */
+const SYNC_INTERVAL = 10 * 60 * 1000;
+
+/** Quote assets whose pairs count towards the cost basis; all are worth 1 USDT */
+const USD_QUOTES = [QUOTE_ASSET, 'USDC', 'FDUSD'];
+
+/** Wallets whose fills are replayed; isolated margin and futures are not */
+type BasisWallet = 'spot' | 'margin';
+
+/**
+ * Cost basis and unrealized PnL of one asset of one wallet.
+ */
+export interface AssetPnl {
+    basis: CostBasis;
+    /** Null when the trades explain none of the holding */
+    unrealized: { pnlUSDT: number; percent: number; coveredQty: number } | null;
+}
+
+/**
+ * Signed PnL in USDT with its percentage when given, e.g. `+$123.45 (+4.20%)`. Privacy
+ * mode masks the amount and shows only the percentage.
+ */
+export function formatPnl(
+    pnl: { pnlUSDT: number; percent?: number },
+    privacy: PrivacyMode
+): string {
+    const amount = privacy.mask(
+        `${pnl.pnlUSDT >= 0 ? '+' : '-'}${formatCurrency(Math.abs(pnl.pnlUSDT), QUOTE_ASSET)}`
+    );
+    if (pnl.percent === undefined) {
+        return amount;
+    }
+    const percent = `${pnl.percent >= 0 ? '+' : '-'}${Math.abs(pnl.percent).toFixed(2)}%`;
+    return privacy.isEnabled() ? percent : `${amount} (${percent})`;
+}
+
+/**
+ * Average cost and PnL of the held spot and cross margin assets, from their fills
+ * against USDT, USDC and FDUSD.
+ *
+ * Fills are cached by `TradeHistoryStore` and synced at most every 10 minutes per
+ * account after a balance update, or when the detailed view asks for them. Accounts
+ * mirrored from the leader window take the cost basis it publishes instead.
+ */
+export class PnlTracker implements vscode.Disposable {
+    /** Cost basis per account, then per `<wallet>:<asset>` */
+    private bases: Map<string, Map<string, CostBasis>> = new Map();
+    private lastSync: Map<string, number> = new Map();
+    private syncing?: Promise<void>;
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /**
+     * Fires after the cost basis of any account was recomputed.
+     */
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(
+        private readonly accounts: AccountManager,
+        private readonly store: TradeHistoryStore,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {
+        this.disposables.push(
+            accounts.onDidUpdateBalance(() => this.sync()),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('binanceBalance.costBasisMethod')) {
+                    this.bases.clear();
+                    this.changeEmitter.fire();
+                    this.sync(true);
+                }
+            })
+        );
+    }
+
+    /**
+     * The `costBasisMethod` setting; `off` disables the tracker.
+     */
+    getMethod(): CostBasisMethod | 'off' {
+        return vscode.workspace
+            .getConfiguration('binanceBalance')
+            .get<CostBasisMethod | 'off'>('costBasisMethod', 'fifo');
+    }
+
+    /**
+     * Fetch new fills of the held assets of every active account and recompute their
+     * cost basis. Accounts synced within the last 10 minutes are skipped unless `force`.
+     */
+    sync(force = false): Promise<void> {
+        if (this.getMethod() === 'off') {
+            return Promise.resolve();
+        }
+        // A running sync already fetches everything new
+        this.syncing ??= this.syncAccounts(force).finally(() => (this.syncing = undefined));
+        return this.syncing;
+    }
+
+    private async syncAccounts(force: boolean) {
+        const clients = this.accounts
+            .getActiveClients()
+            .filter(({ client }) => client.isConfigured());
+
+        for (const { profile, client } of clients) {
+            const accountId = this.getAccountId(profile);
+            if (client.isMirrored()) {
+                this.adoptSharedBases(accountId);
+                continue;
+            }
+            if (!force && Date.now() - (this.lastSync.get(accountId) ?? 0) < SYNC_INTERVAL) {
+                continue;
+            }
+
+            try {
+                const bases = await this.computeBases(accountId, client);
+                this.bases.set(accountId, bases);
+                this.lastSync.set(accountId, Date.now());
+                this.accounts.shareCostBasis(accountId, Object.fromEntries(bases));
+                this.changeEmitter.fire();
+            } catch (error) {
+                this.outputChannel.appendLine(
+                    `[WARN] Failed to load trades for the cost basis of ${profile.name}: ` +
+                        toApiError(error).message
+                );
+            }
+        }
+    }
+
+    /**
+     * Take the cost basis the leader window published for an account, if it changed.
+     */
+    private adoptSharedBases(accountId: string) {
+        const shared = this.accounts.getSharedCostBasis(accountId);
+        const current = this.bases.get(accountId);
+        if (
+            !shared ||
+            JSON.stringify(shared) === JSON.stringify(Object.fromEntries(current ?? []))
+        ) {
+            return;
+        }
+        this.bases.set(accountId, new Map(Object.entries(shared)));
+        this.changeEmitter.fire();
+    }
+
+    private async computeBases(
+        accountId: string,
+        client: BinanceApiClient
+    ): Promise<Map<string, CostBasis>> {
+        const method = this.getMethod() === 'average' ? 'average' : 'fifo';
+        const held = client
+            .getWalletAssets()
+            .filter(
+                (asset) =>
+                    (asset.wallet === 'spot' || asset.wallet === 'margin') &&
+                    asset.amount > 0 &&
+                    !isUsdAsset(asset.asset)
+            );
+
+        const bases: Map<string, CostBasis> = new Map();
+        for (const { wallet, asset } of held) {
+            const symbols = USD_QUOTES.map((quote) => `${asset}${quote}`).filter((symbol) =>
+                client.hasSymbol(symbol)
+            );
+            const trades = await Promise.all(
+                symbols.map((symbol) =>
+                    this.store.sync(accountId, client, wallet as BasisWallet, symbol)
+                )
+            );
+            const basisTrades = trades.flat().map((trade) => toBasisTrade(trade, asset, client));
+            bases.set(`${wallet}:${asset}`, computeCostBasis(basisTrades, method));
+        }
+        return bases;
+    }
+
+    /**
+     * Cost basis and unrealized PnL of a held asset, or undefined when it has no fills
+     * against a USD quote or was not synced yet.
+     */
+    getAssetPnl(
+        profile: Profile,
+        asset: Pick<WalletAsset, 'wallet' | 'asset' | 'amount' | 'priceUSDT'>
+    ): AssetPnl | undefined {
+        const basis = this.bases
+            .get(this.getAccountId(profile))
+            ?.get(`${asset.wallet}:${asset.asset}`);
+        if (!basis || basis.averageCost === null) {
+            return undefined;
+        }
+
+        return {
+            basis,
+            unrealized:
+                asset.priceUSDT !== null
+                    ? getUnrealizedPnl(basis, asset.amount, asset.priceUSDT)
+                    : null,
+        };
+    }
+
+    /**
+     * Unrealized PnL summed over the held assets of one profile, or of the active profile
+     * selection; null when no asset has a cost basis.
+     */
+    getUnrealizedTotal(only?: Profile): { pnlUSDT: number; percent: number } | null {
+        let pnlUSDT = 0;
+        let costUSDT = 0;
+        let found = false;
+
+        const clients = this.accounts
+            .getActiveClients()
+            .filter(({ profile }) => !only || profile.id === only.id);
+        for (const { profile, client } of clients) {
+            for (const asset of client.getWalletAssets()) {
+                const unrealized = this.getAssetPnl(profile, asset)?.unrealized;
+                if (!unrealized || !asset.priceUSDT) {
+                    continue;
+                }
+                found = true;
+                pnlUSDT += unrealized.pnlUSDT;
+                costUSDT += unrealized.coveredQty * asset.priceUSDT - unrealized.pnlUSDT;
+            }
+        }
+
+        return found ? { pnlUSDT, percent: costUSDT > 0 ? (pnlUSDT / costUSDT) * 100 : 0 } : null;
+    }
+
+    /**
+     * Fills differ between mainnet and the testnets, so they are kept apart.
+     */
+    private getAccountId(profile: Profile): string {
+        return `${this.accounts.getEndpoints().environment}:${profile.id}`;
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
+
+/**
+ * Value a fill of `<asset><USD quote>` in USDT with its fee applied. A fee paid in the
+ * asset itself reduces the quantity received; fees in other assets (e.g. BNB) are valued
+ * at their current price.
+ */
+function toBasisTrade(trade: AccountTrade, asset: string, client: BinanceApiClient): BasisTrade {
+    const feeInAsset = trade.commissionAsset === asset;
+    const feeUSDT = feeInAsset
+        ? 0
+        : trade.commission *
+          (isUsdAsset(trade.commissionAsset)
+              ? 1
+              : (client.resolvePrice(trade.commissionAsset)?.price ?? 0));
+
+    if (trade.side === 'BUY') {
+        return {
+            time: trade.time,
+            side: 'BUY',
+            qty: trade.qty - (feeInAsset ? trade.commission : 0),
+            amountUSDT: trade.quoteQty + feeUSDT,
+        };
+    }
+    return {
+        time: trade.time,
+        side: 'SELL',
+        qty: trade.qty,
+        amountUSDT: trade.quoteQty - feeUSDT - (feeInAsset ? trade.commission * trade.price : 0),
+    };
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+
+/** Shown instead of an amount while privacy mode is on */
+export const MASK = '****';
+
+const STATE_KEY = 'binanceBalance.privacyMode';
+
+/**
+ * Privacy mode hides amounts in the status bar, detailed view, sidebar and webviews, e.g.
+ * while sharing the screen. Percentages stay visible.
+ *
+ * The state is kept in globalState across restarts. With `privacyStartMasked` every start
+ * is masked, and with `privacyAutoMaskMinutes` privacy mode turns on by itself after that
+ * long without editor activity.
+ */
+export class PrivacyMode implements vscode.Disposable {
+    private enabled: boolean;
+    private idleTimer?: NodeJS.Timeout;
+    private readonly changeEmitter = new vscode.EventEmitter<boolean>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** Fires with the new state when privacy mode is turned on or off */
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly context: vscode.ExtensionContext) {
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        this.enabled =
+            config.get<boolean>('privacyStartMasked', false) ||
+            context.globalState.get<boolean>(STATE_KEY, false);
+
+        const activity = () => this.restartIdleTimer();
+        this.disposables.push(
+            vscode.window.onDidChangeWindowState((state) => state.focused && activity()),
+            vscode.window.onDidChangeActiveTextEditor(activity),
+            vscode.window.onDidChangeTextEditorSelection(activity),
+            vscode.workspace.onDidChangeTextDocument(activity),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('binanceBalance.privacyAutoMaskMinutes')) {
+                    activity();
+                }
+            })
+        );
+        this.restartIdleTimer();
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    toggle(): Promise<void> {
+        return this.setEnabled(!this.enabled);
+    }
+
+    async setEnabled(enabled: boolean) {
+        if (enabled === this.enabled) {
+            return;
+        }
+        this.enabled = enabled;
+        this.restartIdleTimer();
+        this.changeEmitter.fire(enabled);
+        await this.context.globalState.update(STATE_KEY, enabled);
+    }
+
+    /**
+     * `text` while privacy mode is off, the mask while it is on.
+     */
+    mask(text: string): string {
+        return this.enabled ? MASK : text;
+    }
+
+    private restartIdleTimer() {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = undefined;
+        }
+
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        const minutes = config.get<number>('privacyAutoMaskMinutes', 0);
+        if (this.enabled || minutes <= 0) {
+            return;
+        }
+
+        this.idleTimer = setTimeout(() => {
+            console.log(`No activity for ${minutes} minutes, enabling privacy mode`);
+            this.setEnabled(true);
+        }, minutes * 60000);
+    }
+
+    dispose() {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+        }
+        this.changeEmitter.dispose();
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
@@ -0,0 +1,20 @@
+import * as vscode from 'vscode';
+import { ConfigProvider } from './core/config';
+import { Endpoints, resolveEndpoints } from './core/endpoints';
+
+/**
+ * The `binanceBalance.*` settings of VS Code's configuration, as the core reads them.
+ * Every read sees the current value.
+ */
+export const workspaceConfig: ConfigProvider = {
+    get<T>(key: string, defaultValue: T): T {
+        return vscode.workspace.getConfiguration('binanceBalance').get<T>(key, defaultValue);
+    },
+};
+
+/**
+ * Endpoints of the environment selected in the `environment` setting.
+ */
+export function getEndpoints(): Endpoints {
+    return resolveEndpoints(workspaceConfig);
+}
@@ -1,16 +1,156 @@
 import * as vscode from 'vscode';
-import { BinanceApiClient } from './binanceApi';
+import { AccountManager } from './accountManager';
+import { ApiErrorKind, RateLimitError, toApiError } from './core/apiErrors';
+import { ExponentialBackoff } from './core/backoff';
+import {
+    describeUnavailableWallet,
+    TotalEstimatedBalance,
+    WALLET_LABELS,
+    WalletType,
+} from './core/binanceApi';
+import { QUOTE_ASSET } from './core/pricing';
+import { formatCurrency, formatInDisplayCurrencies, getDisplayCurrencies } from './currency';
+import { BalanceHistory } from './history';
+import { formatPnl, PnlTracker } from './pnl';
+import { PrivacyMode } from './privacy';
+import {
+    formatAgo,
+    parseTemplate,
+    renderTemplate,
+    StatusTemplate,
+    TemplateValues,
+    usesPlaceholder,
+} from './statusTemplate';
+
+const API_MANAGEMENT_URL = 'https://www.binance.com/en/my/settings/api-management';
+
+const openApiManagement: vscode.Command = {
+    title: 'Open API Management',
+    command: 'vscode.open',
+    arguments: [vscode.Uri.parse(API_MANAGEMENT_URL)],
+};
+
+/**
+ * How each kind of failure is shown: status bar text, how to fix it, and what a click does.
+ * Rate limits normally show their resume time instead, see `showRateLimited`.
+ */
+const ERROR_STATES: Record<
+    ApiErrorKind,
+    { text: string; fix: string; command: string | vscode.Command }
+> = {
+    invalidKey: {
+        text: '🔑 Invalid API key',
+        fix:
+            'Binance rejected the API key or secret as malformed. Check that both were ' +
+            'copied completely.\nClick to enter new credentials.',
+        command: 'binanceBalance.configure',
+    },
+    keyRejected: {
+        text: '🔑 API key rejected',
+        fix:
+            'Binance rejected the API key without saying why. Check that the key still ' +
+            "exists, that this machine's IP is trusted if the key is restricted to trusted " +
+            'IPs, and that "Enable Reading" is on.\nClick to open API Management.',
+        command: openApiManagement,
+    },
+    permissionDenied: {
+        text: '🔒 Missing permission',
+        fix:
+            'The API key lacks a permission this request needs. Enable "Enable Reading" ' +
+            '(and margin or futures access for those wallets) in API Management.\n' +
+            'Click to open API Management.',
+        command: openApiManagement,
+    },
+    notEnabled: {
+        text: '⚠️ Wallet not enabled',
+        fix:
+            'The wallet has not been opened on this account. Open it on Binance or remove ' +
+            'it from the includedWallets setting.\nClick to show the logs.',
+        command: 'binanceBalance.showLogs',
+    },
+    rateLimited: {
+        text: '⏸️ Rate limited',
+        fix: 'Requests are paused until the Binance rate limit resets.\nClick to retry.',
+        command: 'binanceBalance.refresh',
+    },
+    offline: {
+        text: '📡 Offline',
+        fix:
+            'Binance cannot be reached. Check the network connection and proxy settings; ' +
+            'the balance refreshes on its own once it is back.\nClick to retry now.',
+        command: 'binanceBalance.refresh',
+    },
+    maintenance: {
+        text: '🛠️ Binance unavailable',
+        fix:
+            'Binance is under maintenance or having problems. The balance refreshes on its ' +
+            'own once it is back.\nClick to retry now.',
+        command: 'binanceBalance.refresh',
+    },
+    unknown: {
+        text: '❌ Error',
+        fix: 'Click to show the logs.',
+        command: 'binanceBalance.showLogs',
+    },
+};
+
+/** Failures that keep the last balance on screen, marked stale, until Binance is back */
+const OUTAGE_KINDS: ApiErrorKind[] = ['offline', 'maintenance'];
+
+/**
+ * Why the shown balance may be out of date.
+ */
+interface Staleness {
+    /** Codicon in front of the status bar text */
+    icon: string;
+    /** Explanation at the top of the tooltip */
+    reason: string;
+}
+
+/** Command links at the bottom of the balance tooltip */
+const TOOLTIP_ACTIONS = [
+    { title: '$(refresh) Refresh', command: 'binanceBalance.refresh' },
+    { title: '$(list-flat) Details', command: 'binanceBalance.showBalances' },
+    { title: '$(key) Configure', command: 'binanceBalance.configure' },
+];
+
+function formatSignedPercent(percent: number): string {
+    return `${percent >= 0 ? '+' : '-'}${Math.abs(percent).toFixed(2)}%`;
+}
+
+/**
+ * Escape text for a Markdown tooltip, e.g. a profile name containing `|` or `*`.
+ */
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!|<>$]/g, '\\$&');
+}
 
 export class BalanceStatusBar implements vscode.Disposable {
     private statusBarItem: vscode.StatusBarItem;
+    private privacyItem: vscode.StatusBarItem;
     private refreshTimer?: NodeJS.Timeout;
     private isUpdating = false;
     private hasInitialData = false;
+    private activeAlerts: string[] = [];
+    private lastBalance?: {
+        balance: TotalEstimatedBalance;
+        silent: boolean;
+        updatedAt: number;
+        stale?: Staleness;
+    };
+    private agoTimer?: NodeJS.Timeout;
+    private reconnectTimer?: NodeJS.Timeout;
+    private readonly reconnectBackoff = new ExponentialBackoff(2000, 60000);
+    /** `statusBarTemplate` value whose error was already logged */
+    private reportedTemplate?: string;
     private outputChannel: vscode.OutputChannel;
 
     constructor(
-        private binanceApi: BinanceApiClient,
-        outputChannel: vscode.OutputChannel
+        private accounts: AccountManager,
+        outputChannel: vscode.OutputChannel,
+        private privacy: PrivacyMode,
+        private history?: BalanceHistory,
+        private pnl?: PnlTracker
     ) {
         this.outputChannel = outputChannel;
 
@@ -25,10 +165,43 @@ export class BalanceStatusBar implements vscode.Disposable {
 
         this.updateStatusBar('⚠️ Not configured');
 
+        // Eye next to the balance toggles privacy mode
+        this.privacyItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+        this.privacyItem.command = 'binanceBalance.togglePrivacy';
+        this.updatePrivacyItem();
+        this.privacyItem.show();
+
+        this.privacy.onDidChange(() => {
+            this.updatePrivacyItem();
+            this.rerender();
+        });
+        this.pnl?.onDidChange(() => this.rerender());
+
         // Set up silent update callback
-        this.binanceApi.onBalanceUpdate((balance) => {
+        this.accounts.onBalanceUpdate((balance) => {
             this.updateBalanceDisplay(balance, true); // true = silent update
         });
+
+        // Credentials were stored, replaced or cleared (possibly from another window)
+        this.accounts.onCredentialsChange(() => {
+            this.hasInitialData = false;
+            this.refresh();
+        });
+
+        // Switched to another profile or to "All accounts"
+        this.accounts.onDidChangeProfile(() => {
+            this.hasInitialData = false;
+            this.refresh();
+        });
+
+        // Requests are held back for Binance rate limits; they resume on their own
+        this.accounts.onDidChangeRateLimit((resumeAt) => {
+            if (resumeAt !== null) {
+                this.showRateLimited(resumeAt);
+            } else if (this.hasInitialData) {
+                this.refresh();
+            }
+        });
     }
 
     start() {
@@ -44,104 +217,380 @@ export class BalanceStatusBar implements vscode.Disposable {
         this.isUpdating = true;
 
         try {
-            if (!this.binanceApi.isConfigured()) {
+            await this.accounts.waitForConfiguration();
+
+            if (!this.accounts.isConfigured()) {
+                this.clearBalance();
                 this.updateStatusBar('⚠️ Configure API');
                 this.statusBarItem.tooltip = 'Click to configure Binance API credentials';
                 this.statusBarItem.command = 'binanceBalance.configure';
                 return;
             }
 
-            // Only show loading for initial load
+            // Until the first balance arrives, show the last known one or a loading state
             if (!this.hasInitialData) {
-                this.updateStatusBar('🔄 Loading...');
-                this.statusBarItem.tooltip = 'Loading balance...';
+                const saved = await this.accounts.getSavedBalance();
+                if (saved) {
+                    await this.updateBalanceDisplay(saved.balance, false, saved.updatedAt, {
+                        icon: '$(history)',
+                        reason: 'Last known balance; loading the current one...',
+                    });
+                } else {
+                    this.updateStatusBar('🔄 Loading...');
+                    this.statusBarItem.tooltip = 'Loading balance...';
+                }
             }
 
-            const estimatedBalance = await this.binanceApi.getTotalEstimatedBalance();
+            const estimatedBalance = await this.accounts.getTotalEstimatedBalance();
             this.updateBalanceDisplay(estimatedBalance, false); // false = not silent
 
             this.hasInitialData = true;
         } catch (error) {
-            this.outputChannel.appendLine(`[ERROR] Failed to update balance: ${error}`);
-            console.error('Failed to update balance:', error);
-            this.updateStatusBar('❌ Error');
+            const apiError = toApiError(error);
+            if (apiError instanceof RateLimitError) {
+                this.outputChannel.appendLine(`[WARN] ${apiError.message}`);
+                this.showRateLimited(apiError.resumeAt);
+                return;
+            }
 
-            let errorMessage = 'Unknown error';
-            if (error instanceof Error) {
-                errorMessage = error.message;
+            if (this.lastBalance && OUTAGE_KINDS.includes(apiError.kind)) {
+                this.outputChannel.appendLine(
+                    `[WARN] Failed to update balance (${apiError.kind}): ${apiError.message}. ` +
+                        'Keeping the last balance until Binance is reachable.'
+                );
+                this.showOutage(apiError.kind, apiError.message);
+                return;
             }
 
-            this.statusBarItem.tooltip = `Error: ${errorMessage}\\nClick to retry`;
-            this.statusBarItem.command = 'binanceBalance.refresh';
+            this.outputChannel.appendLine(
+                `[ERROR] Failed to update balance (${apiError.kind}): ${apiError.message}`
+            );
+            console.error('Failed to update balance:', error);
+            this.showError(apiError.kind, apiError.message);
         } finally {
             this.isUpdating = false;
         }
     }
 
-    private formatBalance(balance: number, symbol: string): string {
-        if (symbol === 'USDT') {
-            return `$${balance.toLocaleString('en-US', {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-            })}`;
-        } else {
-            const decimals = symbol === 'BTC' ? 6 : 4;
-            return `${balance.toFixed(decimals)} ${symbol}`;
+    private updatePrivacyItem() {
+        const enabled = this.privacy.isEnabled();
+        this.privacyItem.text = enabled ? '$(eye-closed)' : '$(eye)';
+        this.privacyItem.tooltip = enabled
+            ? 'Privacy mode is on: balances are hidden. Click to show them.'
+            : 'Click to hide balances (privacy mode)';
+    }
+
+    private showRateLimited(resumeAt: number) {
+        this.clearBalance();
+        const resume = new Date(resumeAt).toLocaleTimeString([], {
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+        this.updateStatusBar(`⏸️ Rate limited, resuming at ${resume}`);
+        this.statusBarItem.tooltip =
+            `Binance rate limit reached. Requests are paused and resume at ${resume}.\n` +
+            'Consider a longer refreshInterval if this happens often.';
+        this.statusBarItem.command = 'binanceBalance.refresh';
+    }
+
+    /**
+     * Keep the last balance on screen, marked stale, and probe the connection so the
+     * balance refreshes as soon as Binance answers again.
+     */
+    private showOutage(kind: ApiErrorKind, message: string) {
+        if (!this.lastBalance) {
+            return;
+        }
+        const { balance, silent, updatedAt } = this.lastBalance;
+        this.updateBalanceDisplay(balance, silent, updatedAt, {
+            icon: '$(debug-disconnect)',
+            reason: `${ERROR_STATES[kind].text}: ${message}`,
+        });
+        this.scheduleReconnectProbe();
+    }
+
+    private scheduleReconnectProbe() {
+        if (this.reconnectTimer) {
+            return;
         }
+        this.reconnectTimer = setTimeout(async () => {
+            try {
+                await this.accounts.ping();
+            } catch {
+                this.reconnectTimer = undefined;
+                this.scheduleReconnectProbe();
+                return;
+            }
+            this.reconnectTimer = undefined;
+            this.outputChannel.appendLine('Binance is reachable again, refreshing balance');
+            this.refresh();
+        }, this.reconnectBackoff.next());
     }
 
-    private updateStatusBar(text: string) {
-        this.statusBarItem.text = text;
+    private stopReconnectProbe() {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        this.reconnectBackoff.reset();
     }
 
-    private async updateBalanceDisplay(estimatedBalance: any, silent = false) {
-        try {
-            const config = vscode.workspace.getConfiguration('binanceBalance');
-            const displayCurrency = config.get<string>('displayCurrency', 'USDT');
-
-            let balance: number;
-            let symbol: string;
-
-            if (displayCurrency === 'USDT') {
-                balance = estimatedBalance.totalUSDT;
-                symbol = 'USDT';
-            } else {
-                if (displayCurrency === 'BTC') {
-                    const btcPrice = await this.binanceApi.getPrice('BTCUSDT', silent); // Use cache for silent updates
-                    balance = estimatedBalance.totalUSDT / btcPrice;
-                    symbol = 'BTC';
-                } else if (displayCurrency === 'ETH') {
-                    const ethPrice = await this.binanceApi.getPrice('ETHUSDT', silent);
-                    balance = estimatedBalance.totalUSDT / ethPrice;
-                    symbol = 'ETH';
-                } else if (displayCurrency === 'BNB') {
-                    const bnbPrice = await this.binanceApi.getPrice('BNBUSDT', silent);
-                    balance = estimatedBalance.totalUSDT / bnbPrice;
-                    symbol = 'BNB';
-                } else {
-                    balance = estimatedBalance.totalUSDT;
-                    symbol = 'USDT';
+    private showError(kind: ApiErrorKind, message: string) {
+        const state = ERROR_STATES[kind];
+        this.clearBalance();
+        this.updateStatusBar(state.text);
+        this.statusBarItem.tooltip = `${message}\n${state.fix}`;
+        this.statusBarItem.command = state.command;
+    }
+
+    /**
+     * The total in the display currencies, keeping their conversion prices live.
+     */
+    private async formatDisplayTotal(totalUSDT: number): Promise<string> {
+        const { text, symbols } = await formatInDisplayCurrencies(totalUSDT, (amount, currency) =>
+            this.accounts.convertFromUSDT(amount, currency)
+        );
+        this.accounts.trackSymbols('displayCurrency', symbols);
+        return text;
+    }
+
+    /**
+     * Template for the status bar text: `statusBarTemplate`, or the built-in one when it is
+     * empty or invalid. An invalid template is reported once in the output channel.
+     */
+    private getTemplate(): StatusTemplate {
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        const custom = config.get<string>('statusBarTemplate', '').trim();
+        if (custom) {
+            try {
+                const template = parseTemplate(custom);
+                this.reportedTemplate = undefined;
+                return template;
+            } catch (error) {
+                if (this.reportedTemplate !== custom) {
+                    this.reportedTemplate = custom;
+                    const reason = error instanceof Error ? error.message : String(error);
+                    this.outputChannel.appendLine(
+                        `[ERROR] Invalid statusBarTemplate "${custom}": ${reason}. ` +
+                            'Using the default status bar text.'
+                    );
                 }
             }
+        }
+
+        const icon = config.get<boolean>('showIcon', true) ? '💰 ' : '';
+        // Masked, the day's change in percent is all that is shown
+        return parseTemplate(
+            this.privacy.isEnabled() ? `${icon}{total} {pnlToday}` : `${icon}{total}`
+        );
+    }
+
+    private getTemplateValues(
+        balance: TotalEstimatedBalance,
+        formattedTotal: string,
+        updatedAt: number
+    ): TemplateValues {
+        const usdt = (value: number) => this.privacy.mask(formatCurrency(value, QUOTE_ASSET));
+        const dayAgo = this.history?.getTotalAt(
+            this.accounts.getActiveProfileId(),
+            Date.now() - 24 * 60 * 60 * 1000
+        );
+
+        return {
+            total: formattedTotal,
+            spot: usdt(balance.spotUSDT),
+            margin: usdt(balance.marginUSDT),
+            isolated: usdt(balance.isolatedMarginUSDT),
+            futures: usdt(balance.futuresUSDT + balance.futuresUnrealizedPnlUSDT),
+            coinFutures: usdt(balance.coinFuturesUSDT + balance.coinFuturesUnrealizedPnlUSDT),
+            change24h: dayAgo
+                ? formatSignedPercent(((balance.totalUSDT - dayAgo) / dayAgo) * 100)
+                : '',
+            pnlToday: this.formatDayChange(balance) ?? '',
+            updatedAgo: formatAgo(updatedAt),
+            currency: getDisplayCurrencies()[0],
+        };
+    }
+
+    /**
+     * One table row per wallet that counts toward the total.
+     */
+    private formatWalletRows(balance: TotalEstimatedBalance): [string, string][] {
+        const usdt = (value: number) => this.privacy.mask(formatCurrency(value, QUOTE_ASSET));
+        const values: Record<WalletType, string> = {
+            spot: usdt(balance.spotUSDT),
+            margin: usdt(balance.marginUSDT),
+            isolatedMargin: usdt(balance.isolatedMarginUSDT),
+            usdmFutures:
+                `${usdt(balance.futuresUSDT)} ` +
+                `(uPnL ${usdt(balance.futuresUnrealizedPnlUSDT)})`,
+            coinmFutures:
+                `${usdt(balance.coinFuturesUSDT)} ` +
+                `(uPnL ${usdt(balance.coinFuturesUnrealizedPnlUSDT)})`,
+        };
+
+        return (Object.keys(values) as WalletType[])
+            .filter((wallet) => balance.includedWallets.includes(wallet))
+            .map((wallet) => {
+                // Wallets that could not be fetched say why instead of showing $0.00
+                const unavailable = balance.unavailableWallets.find(
+                    (entry) => entry.wallet === wallet
+                );
+                const value = unavailable ? describeUnavailableWallet(unavailable) : values[wallet];
+                return [WALLET_LABELS[wallet], value];
+            });
+    }
+
+    /**
+     * Change of the total since the start of the local day, from the balance history.
+     */
+    private getDayChange(
+        balance: TotalEstimatedBalance
+    ): { change: number; percent: number | null } | undefined {
+        const startOfDay = this.history?.getStartOfDayTotal(this.accounts.getActiveProfileId());
+        if (startOfDay === undefined) {
+            return undefined;
+        }
+
+        const change = balance.totalUSDT - startOfDay;
+        return { change, percent: startOfDay !== 0 ? (change / startOfDay) * 100 : null };
+    }
+
+    /**
+     * Today's change as `+$120.50 (+1.02%)`, or only the percentage while masked.
+     */
+    private formatDayChange(balance: TotalEstimatedBalance): string | undefined {
+        const dayChange = this.getDayChange(balance);
+        if (!dayChange) {
+            return undefined;
+        }
+
+        const { change, percent } = dayChange;
+        const formattedPercent = percent !== null ? formatSignedPercent(percent) : undefined;
+        if (this.privacy.isEnabled()) {
+            return formattedPercent;
+        }
+        const amount = `${change >= 0 ? '+' : '-'}${formatCurrency(Math.abs(change), QUOTE_ASSET)}`;
+        return formattedPercent ? `${amount} (${formattedPercent})` : amount;
+    }
+
+    /**
+     * Tooltip with a table of the wallets, today's change, warnings and quick actions.
+     */
+    private buildTooltip(
+        balance: TotalEstimatedBalance,
+        formattedTotal: string,
+        updatedAt: number,
+        silent: boolean,
+        stale?: Staleness
+    ): vscode.MarkdownString {
+        const environment = this.accounts.getEndpoints().environment;
+        const heading = [
+            `Profile: **${escapeMarkdown(this.accounts.getActiveLabel())}**`,
+            ...(environment !== 'mainnet' ? [`\`${environment}\``] : []),
+        ].join(' · ');
 
-            const displayConfig = vscode.workspace.getConfiguration('binanceBalance');
-            const showIcon = displayConfig.get<boolean>('showIcon', true);
-            const formattedBalance = this.formatBalance(balance, symbol);
-            const displayText = showIcon ? `💰 ${formattedBalance}` : formattedBalance;
-            this.updateStatusBar(displayText);
-
-            const lastUpdate = new Date().toLocaleTimeString();
-            const spotFormatted = this.formatBalance(estimatedBalance.spotUSDT, 'USDT');
-            const marginFormatted = this.formatBalance(estimatedBalance.marginUSDT, 'USDT');
-
-            const updateType = silent ? 'Live' : 'Manual';
-            this.statusBarItem.tooltip =
-                `Total Estimated: ${formattedBalance}\\n` +
-                `Spot: ${spotFormatted}\\n` +
-                `Margin: ${marginFormatted}\\n` +
-                `Last updated: ${lastUpdate} (${updateType})\\n` +
-                `Click to refresh`;
+        const rows = this.formatWalletRows(balance).map(
+            ([wallet, value]) => `| ${wallet} | ${escapeMarkdown(value)} |`
+        );
+        const dayChange = this.formatDayChange(balance);
+        const unrealized = this.pnl?.getUnrealizedTotal();
+        const actions = TOOLTIP_ACTIONS.map(
+            ({ title, command }) => `[${title}](command:${command})`
+        );
+        const unvalued = [...new Set(balance.unvaluedAssets.map((unvalued) => unvalued.asset))];
+        const updated = stale
+            ? `Last confirmed: ${new Date(updatedAt).toLocaleString()} (${formatAgo(updatedAt)})`
+            : `Last updated: ${new Date(updatedAt).toLocaleTimeString()} (${silent ? 'Live' : 'Manual'})`;
+
+        const markdown = new vscode.MarkdownString(
+            [
+                heading,
+                '',
+                ...(stale ? [`$(warning) ${escapeMarkdown(stale.reason)}`, ''] : []),
+                '| Wallet | Value |',
+                '| :-- | --: |',
+                ...rows,
+                `| **Total** | **${escapeMarkdown(formattedTotal)}** |`,
+                '',
+                ...(dayChange ? [`Today: ${escapeMarkdown(dayChange)}`, ''] : []),
+                ...(unrealized
+                    ? [`Unrealized PnL: ${escapeMarkdown(formatPnl(unrealized, this.privacy))}`, '']
+                    : []),
+                ...(unvalued.length > 0
+                    ? [`Not valued (no price): ${escapeMarkdown(unvalued.join(', '))}`, '']
+                    : []),
+                ...this.activeAlerts.map(
+                    (description) => `$(warning) Alert: ${escapeMarkdown(description)}\n`
+                ),
+                updated,
+                ...(this.accounts.isMirrored() ? ['', 'Shared by another VS Code window'] : []),
+                '',
+                actions.join(' · '),
+            ].join('\n')
+        );
+        markdown.supportThemeIcons = true;
+        markdown.isTrusted = { enabledCommands: TOOLTIP_ACTIONS.map(({ command }) => command) };
+        return markdown;
+    }
+
+    /**
+     * Highlight the status bar item while any alert condition holds.
+     *
+     * @param descriptions - Descriptions of the active alert rules; empty to clear
+     */
+    setActiveAlerts(descriptions: string[]) {
+        this.activeAlerts = descriptions;
+        this.statusBarItem.backgroundColor =
+            descriptions.length > 0
+                ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                : undefined;
+    }
+
+    private updateStatusBar(text: string) {
+        this.statusBarItem.text = text;
+    }
+
+    /**
+     * @param stale - Set when the balance may be out of date: it is dimmed and shows its age
+     */
+    private async updateBalanceDisplay(
+        estimatedBalance: TotalEstimatedBalance,
+        silent = false,
+        updatedAt = Date.now(),
+        stale?: Staleness
+    ) {
+        this.lastBalance = { balance: estimatedBalance, silent, updatedAt, stale };
+        if (!stale) {
+            this.stopReconnectProbe();
+        }
+        try {
+            const formattedTotal = this.privacy.mask(
+                await this.formatDisplayTotal(estimatedBalance.totalUSDT)
+            );
+            const template = this.getTemplate();
+            const showsAge = usesPlaceholder(template, 'updatedAgo');
+            const text = renderTemplate(
+                template,
+                this.getTemplateValues(estimatedBalance, formattedTotal, updatedAt)
+            );
+            this.updateStatusBar(
+                stale
+                    ? `${stale.icon} ${text}${showsAge ? '' : ` (${formatAgo(updatedAt)})`}`
+                    : text
+            );
+            this.statusBarItem.color = stale
+                ? new vscode.ThemeColor('disabledForeground')
+                : undefined;
+            this.statusBarItem.tooltip = this.buildTooltip(
+                estimatedBalance,
+                formattedTotal,
+                updatedAt,
+                silent,
+                stale
+            );
             this.statusBarItem.command = 'binanceBalance.refresh';
+            this.scheduleAgoUpdate(showsAge || stale !== undefined);
         } catch (error) {
             if (!silent) {
                 this.outputChannel.appendLine(`[ERROR] Failed to update balance display: ${error}`);
@@ -150,13 +599,49 @@ export class BalanceStatusBar implements vscode.Disposable {
         }
     }
 
+    /**
+     * Re-render the shown balance so that `{updatedAgo}` keeps counting between updates.
+     */
+    private scheduleAgoUpdate(enabled: boolean) {
+        if (this.agoTimer) {
+            clearTimeout(this.agoTimer);
+            this.agoTimer = undefined;
+        }
+        if (enabled) {
+            this.agoTimer = setTimeout(() => this.rerender(), 30000);
+        }
+    }
+
+    /**
+     * Show the last balance again, e.g. after privacy mode or the template changed.
+     */
+    rerender() {
+        if (this.lastBalance) {
+            const { balance, silent, updatedAt, stale } = this.lastBalance;
+            this.updateBalanceDisplay(balance, silent, updatedAt, stale);
+        }
+    }
+
+    /**
+     * Replace the balance with a state such as an error; it is no longer re-rendered.
+     */
+    private clearBalance() {
+        this.lastBalance = undefined;
+        this.statusBarItem.color = undefined;
+        this.scheduleAgoUpdate(false);
+        this.stopReconnectProbe();
+    }
+
     private scheduleNextUpdate() {
         if (this.refreshTimer) {
             clearTimeout(this.refreshTimer);
         }
 
         const config = vscode.workspace.getConfiguration('binanceBalance');
-        const refreshInterval = config.get<number>('refreshInterval', 10000);
+        // While the user data stream keeps spot balances live, REST polling is only a consistency check
+        const refreshInterval = this.accounts.isUserDataStreamConnected()
+            ? config.get<number>('consistencyCheckInterval', 300000)
+            : config.get<number>('refreshInterval', 10000);
 
         this.refreshTimer = setTimeout(() => {
             this.refresh();
@@ -168,6 +653,13 @@ export class BalanceStatusBar implements vscode.Disposable {
         if (this.refreshTimer) {
             clearTimeout(this.refreshTimer);
         }
+        if (this.agoTimer) {
+            clearTimeout(this.agoTimer);
+        }
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+        }
         this.statusBarItem.dispose();
+        this.privacyItem.dispose();
     }
 }
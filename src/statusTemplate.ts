@@ -0,0 +1,125 @@
+/**
+ * Placeholders of the `statusBarTemplate` setting.
+ *
+ * - `total`: total in the display currencies
+ * - `spot`, `margin`, `isolated`, `futures`, `coinFutures`: wallet values in USDT, futures
+ *   including unrealized PnL
+ * - `change24h`: change of the total over the last 24 hours in percent
+ * - `pnlToday`: change of the total since midnight, e.g. `+$120.50 (+1.02%)`
+ * - `updatedAgo`: age of the shown balance, e.g. `3m ago`
+ * - `currency`: code of the first display currency
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+    'total',
+    'spot',
+    'margin',
+    'isolated',
+    'futures',
+    'coinFutures',
+    'change24h',
+    'pnlToday',
+    'updatedAgo',
+    'currency',
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+/**
+ * Text of every placeholder; an empty string drops the placeholder from the output.
+ */
+export type TemplateValues = Record<TemplatePlaceholder, string>;
+
+/** A parsed template: literal text and placeholders in order */
+export type StatusTemplate = (string | { placeholder: TemplatePlaceholder })[];
+
+/**
+ * Thrown by `parseTemplate` for an unknown placeholder or an unmatched brace.
+ */
+export class TemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateError';
+    }
+}
+
+/**
+ * Parse a status bar template such as `$(graph) {total} {change24h}`. Codicons (`$(name)`)
+ * and emoji are literal text; `{{` and `}}` stand for literal braces.
+ *
+ * @throws TemplateError when the template is invalid
+ */
+export function parseTemplate(template: string): StatusTemplate {
+    const parts: StatusTemplate = [];
+    let literal = '';
+    const pattern = /\{\{|\}\}|\{([^{}]*)\}|[{}]/g;
+    let last = 0;
+
+    for (const match of template.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        literal += template.slice(last, index);
+        last = index + match[0].length;
+
+        if (match[0] === '{{' || match[0] === '}}') {
+            literal += match[0][0];
+            continue;
+        }
+        if (match[1] === undefined) {
+            throw new TemplateError(
+                `Unmatched '${match[0]}' at position ${index + 1}; use '${match[0].repeat(2)}' for a literal brace`
+            );
+        }
+
+        const name = match[1].trim();
+        if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+            throw new TemplateError(
+                `Unknown placeholder {${name}}. Available: ` +
+                    TEMPLATE_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(', ')
+            );
+        }
+
+        if (literal) {
+            parts.push(literal);
+            literal = '';
+        }
+        parts.push({ placeholder: name as TemplatePlaceholder });
+    }
+
+    literal += template.slice(last);
+    if (literal) {
+        parts.push(literal);
+    }
+    return parts;
+}
+
+/**
+ * Whether the template shows the given placeholder.
+ */
+export function usesPlaceholder(template: StatusTemplate, placeholder: TemplatePlaceholder) {
+    return template.some((part) => typeof part !== 'string' && part.placeholder === placeholder);
+}
+
+/**
+ * Fill in a parsed template. Spaces left over by empty placeholders are collapsed.
+ */
+export function renderTemplate(template: StatusTemplate, values: TemplateValues): string {
+    return template
+        .map((part) => (typeof part === 'string' ? part : values[part.placeholder]))
+        .join('')
+        .replace(/ {2,}/g, ' ')
+        .trim();
+}
+
+/**
+ * Short age of a timestamp: `just now`, `5m ago`, `2h ago`, `3d ago`.
+ */
+export function formatAgo(time: number, now = Date.now()): string {
+    const minutes = Math.floor((now - time) / 60000);
+    if (minutes < 1) {
+        return 'just now';
+    }
+    if (minutes < 60) {
+        return `${minutes}m ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { AccountTrade, BinanceApiClient, OrderWallet } from './core/binanceApi';
+
+interface TradeHistoryFile {
+    version: 1;
+    /** Fills per account, then per `<wallet>:<symbol>`, oldest first */
+    accounts: Record<string, Record<string, AccountTrade[]>>;
+}
+
+/** Fills per request; fewer mean the last page was reached */
+const PAGE_SIZE = 1000;
+
+/**
+ * The fills of both files per account and symbol, without duplicates, oldest first.
+ */
+function mergeTrades(saved: TradeHistoryFile, current: TradeHistoryFile): TradeHistoryFile {
+    const accounts = { ...saved.accounts };
+    for (const [accountId, symbols] of Object.entries(current.accounts)) {
+        const merged = { ...accounts[accountId] };
+        for (const [key, trades] of Object.entries(symbols)) {
+            const byId = new Map((merged[key] ?? []).map((trade) => [trade.id, trade]));
+            for (const trade of trades) {
+                byId.set(trade.id, trade);
+            }
+            merged[key] = [...byId.values()].sort((a, b) => a.id - b.id);
+        }
+        accounts[accountId] = merged;
+    }
+    return { version: 1, accounts };
+}
+
+/**
+ * Caches every fill of the symbols the cost basis needs in the extension's global
+ * storage, so only fills newer than the cached ones are requested.
+ */
+export class TradeHistoryStore {
+    private readonly fileUri: vscode.Uri;
+    private data: TradeHistoryFile = { version: 1, accounts: {} };
+    private loaded: Promise<void>;
+
+    constructor(private readonly storageUri: vscode.Uri) {
+        this.fileUri = vscode.Uri.joinPath(storageUri, 'trade-history.json');
+        this.loaded = this.load();
+    }
+
+    private async read(): Promise<TradeHistoryFile | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(this.fileUri);
+            const parsed = JSON.parse(Buffer.from(content).toString('utf8')) as TradeHistoryFile;
+            if (parsed.version === 1 && parsed.accounts) {
+                return parsed;
+            }
+        } catch {
+            // No trades cached yet
+        }
+        return undefined;
+    }
+
+    private async load() {
+        this.data = (await this.read()) ?? this.data;
+    }
+
+    /**
+     * Write the cache, keeping the fills another window saved since it was read.
+     */
+    private async save() {
+        const saved = await this.read();
+        if (saved) {
+            this.data = mergeTrades(saved, this.data);
+        }
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                this.fileUri,
+                Buffer.from(JSON.stringify(this.data), 'utf8')
+            );
+        } catch (error) {
+            console.warn('Failed to save trade history:', error);
+        }
+    }
+
+    /**
+     * Fetch the fills of a symbol newer than the cached ones and return all of them.
+     * The first call for a symbol pages through its whole history.
+     *
+     * @param accountId - Account the fills belong to, see `PnlTracker`
+     * @returns Every fill of the symbol, oldest first
+     */
+    async sync(
+        accountId: string,
+        client: BinanceApiClient,
+        wallet: OrderWallet,
+        symbol: string
+    ): Promise<AccountTrade[]> {
+        await this.loaded;
+
+        const key = `${wallet}:${symbol}`;
+        const cached = this.data.accounts[accountId]?.[key] ?? [];
+        const fetched: AccountTrade[] = [];
+        let fromId = cached.length > 0 ? cached[cached.length - 1].id + 1 : 0;
+
+        for (;;) {
+            const page = await client.fetchTrades(wallet, symbol, { fromId, limit: PAGE_SIZE });
+            fetched.push(...page);
+            if (page.length < PAGE_SIZE) {
+                break;
+            }
+            fromId = page[page.length - 1].id + 1;
+        }
+
+        if (fetched.length > 0) {
+            // Saving replaces `data`, so look the account up again
+            (this.data.accounts[accountId] ??= {})[key] = [...cached, ...fetched];
+            await this.save();
+        }
+        return this.data.accounts[accountId]?.[key] ?? [];
+    }
+}
@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import { AccountManager } from './accountManager';
+import { toApiError } from './core/apiErrors';
+import { TickerUpdate } from './core/priceStream';
+
+/** How long the rotating item shows each symbol */
+const ROTATE_INTERVAL = 5000;
+
+/** Quote assets tried, longest first, to split a symbol into base and quote for links */
+const QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'TUSD', 'BTC', 'ETH', 'BNB', 'TRY', 'EUR', 'BRL'];
+
+/**
+ * Last price with 2 decimals from 1000 up and 6 significant digits below, e.g.
+ * `67,123.45`, `3.45210`, `0.0512340`.
+ */
+export function formatPrice(price: number): string {
+    return price >= 1000
+        ? price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+        : price.toLocaleString('en-US', {
+              minimumSignificantDigits: 6,
+              maximumSignificantDigits: 6,
+          });
+}
+
+export function formatChangePercent(percent: number): string {
+    return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+/**
+ * Spot trading page of a symbol, e.g. `BTCUSDT` → `.../trade/BTC_USDT`.
+ */
+export function getTradeUrl(symbol: string): string {
+    const quote = QUOTE_ASSETS.find((asset) => symbol.endsWith(asset) && symbol !== asset);
+    const pair = quote ? `${symbol.slice(0, -quote.length)}_${quote}` : symbol;
+    return `https://www.binance.com/en/trade/${pair}?type=spot`;
+}
+
+/**
+ * Status bar items with the last price and 24h change of the `watchlist` symbols: one
+ * item per symbol, or with `watchlistRotate` a single item cycling through them.
+ *
+ * Prices come from the shared `@ticker` stream; the first values are loaded over REST
+ * so the items do not wait for the first tick.
+ */
+export class WatchlistStatusBar implements vscode.Disposable {
+    private items: vscode.StatusBarItem[] = [];
+    private tickers: Map<string, TickerUpdate> = new Map();
+    private rotateTimer?: NodeJS.Timeout;
+    private rotateIndex = 0;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly accounts: AccountManager,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {
+        this.disposables.push(
+            accounts.onDidUpdateTicker((ticker) => this.handleTicker(ticker)),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (
+                    e.affectsConfiguration('binanceBalance.watchlist') ||
+                    e.affectsConfiguration('binanceBalance.watchlistRotate')
+                ) {
+                    this.sync();
+                }
+            })
+        );
+        this.sync();
+    }
+
+    /**
+     * Symbols of the `watchlist` setting, upper-cased and without duplicates.
+     */
+    getSymbols(): string[] {
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        const symbols = config.get<string[]>('watchlist', []);
+        return [...new Set(symbols.map((symbol) => symbol.trim().toUpperCase()))].filter(
+            (symbol) => symbol !== ''
+        );
+    }
+
+    /**
+     * Latest 24h ticker of a watched symbol, loading it when none has arrived yet.
+     */
+    async getTicker(symbol: string): Promise<TickerUpdate | undefined> {
+        if (!this.tickers.has(symbol)) {
+            await this.loadTickers([symbol]);
+        }
+        return this.tickers.get(symbol);
+    }
+
+    async addSymbol(symbol: string): Promise<void> {
+        const symbols = this.getSymbols();
+        if (!symbols.includes(symbol)) {
+            await this.updateSymbols([...symbols, symbol]);
+        }
+    }
+
+    async removeSymbol(symbol: string): Promise<void> {
+        await this.updateSymbols(this.getSymbols().filter((candidate) => candidate !== symbol));
+    }
+
+    private async updateSymbols(symbols: string[]) {
+        const config = vscode.workspace.getConfiguration('binanceBalance');
+        await config.update('watchlist', symbols, vscode.ConfigurationTarget.Global);
+    }
+
+    /**
+     * Rebuild the items after the settings changed and subscribe to the symbols.
+     */
+    private sync() {
+        const symbols = this.getSymbols();
+        const rotate = vscode.workspace
+            .getConfiguration('binanceBalance')
+            .get<boolean>('watchlistRotate', false);
+
+        this.disposeItems();
+        this.accounts.trackSymbols('watchlist', symbols);
+        for (const symbol of this.tickers.keys()) {
+            if (!symbols.includes(symbol)) {
+                this.tickers.delete(symbol);
+            }
+        }
+
+        if (symbols.length === 0) {
+            return;
+        }
+
+        if (rotate) {
+            this.items = [this.createItem('binanceBalance.watchlist', 90)];
+            this.rotateIndex = 0;
+            this.rotateTimer = setInterval(() => {
+                this.rotateIndex = (this.rotateIndex + 1) % this.getSymbols().length;
+                this.render();
+            }, ROTATE_INTERVAL);
+        } else {
+            // Lower priorities sit further right, keeping the configured order
+            this.items = symbols.map((symbol, index) =>
+                this.createItem(`binanceBalance.watchlist.${symbol}`, 90 - index / 100)
+            );
+        }
+        this.render();
+
+        const missing = symbols.filter((symbol) => !this.tickers.has(symbol));
+        if (missing.length > 0) {
+            this.loadTickers(missing).then(() => this.render());
+        }
+    }
+
+    private createItem(id: string, priority: number): vscode.StatusBarItem {
+        const item = vscode.window.createStatusBarItem(
+            id,
+            vscode.StatusBarAlignment.Right,
+            priority
+        );
+        item.name = 'Binance Watchlist';
+        item.show();
+        return item;
+    }
+
+    private async loadTickers(symbols: string[]) {
+        try {
+            const tickers = await this.accounts.get24hrTickers(symbols);
+            tickers.forEach((ticker) => this.tickers.set(ticker.symbol, ticker));
+        } catch (error) {
+            this.outputChannel.appendLine(
+                `[WARN] Failed to load watchlist prices for ${symbols.join(', ')}: ` +
+                    toApiError(error).message
+            );
+        }
+    }
+
+    private handleTicker(ticker: TickerUpdate) {
+        const symbols = this.getSymbols();
+        if (!symbols.includes(ticker.symbol)) {
+            return;
+        }
+        this.tickers.set(ticker.symbol, ticker);
+        this.render();
+    }
+
+    private render() {
+        const symbols = this.getSymbols();
+        if (this.items.length === 1 && this.rotateTimer) {
+            this.renderItem(this.items[0], symbols[this.rotateIndex % symbols.length]);
+            return;
+        }
+        this.items.forEach((item, index) => this.renderItem(item, symbols[index]));
+    }
+
+    private renderItem(item: vscode.StatusBarItem, symbol: string | undefined) {
+        if (!symbol) {
+            return;
+        }
+
+        item.command = {
+            title: 'Show Watchlist Symbol',
+            command: 'binanceBalance.showWatchlistSymbol',
+            arguments: [symbol],
+        };
+
+        const ticker = this.tickers.get(symbol);
+        if (!ticker) {
+            item.text = `${symbol} $(loading~spin)`;
+            item.color = undefined;
+            item.tooltip = `Waiting for the first ${symbol} price`;
+            return;
+        }
+
+        const up = ticker.priceChangePercent >= 0;
+        item.text =
+            `${symbol} ${formatPrice(ticker.lastPrice)} ` +
+            `$(${up ? 'arrow-up' : 'arrow-down'})${formatChangePercent(ticker.priceChangePercent)}`;
+        item.color = new vscode.ThemeColor(up ? 'charts.green' : 'charts.red');
+        item.tooltip =
+            `${symbol} 24h: high ${formatPrice(ticker.highPrice)}, ` +
+            `low ${formatPrice(ticker.lowPrice)}\nClick for details`;
+    }
+
+    private disposeItems() {
+        if (this.rotateTimer) {
+            clearInterval(this.rotateTimer);
+            this.rotateTimer = undefined;
+        }
+        this.items.forEach((item) => item.dispose());
+        this.items = [];
+    }
+
+    dispose() {
+        this.disposeItems();
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
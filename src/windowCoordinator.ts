@@ -0,0 +1,321 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/** How often the leader renews its lock and the other windows check it */
+const HEARTBEAT_INTERVAL = 2000;
+/** A lock not renewed for this long belongs to a window that hung */
+const LOCK_TIMEOUT = 10000;
+/** How often followers look for newly published state */
+const STATE_POLL_INTERVAL = 1000;
+/** A request for data not renewed for this long has ended, see `requestData` */
+const REQUEST_TIMEOUT = 90000;
+
+interface LockFile {
+    windowId: string;
+    /** Extension host process of the leader window */
+    pid: number;
+    /** Last renewal (ms since epoch) */
+    heartbeat: number;
+}
+
+interface StateFile<T> {
+    version: 1;
+    windowId: string;
+    /** Publish time (ms since epoch) */
+    time: number;
+    state: T;
+}
+
+/**
+ * Whether a process is running; a process of another user still counts.
+ */
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Elects one leader among the VS Code windows through a lock file in the extension's
+ * global storage, and passes the state the leader publishes to the other windows.
+ *
+ * The leader renews the lock every 2 seconds. Another window takes over when the lock
+ * is released on close, when the leader's process is gone, or when the lock has not
+ * been renewed for 10 seconds. Two windows taking over a stale lock at the same moment
+ * may both lead until the next heartbeat, when the one whose lock was replaced steps down.
+ *
+ * Lock operations are synchronous so the role is known as soon as the constructor
+ * returns, before any client connects. Followers ask the leader for data it only loads
+ * on demand through `requestData`.
+ */
+export class WindowCoordinator<T> implements vscode.Disposable {
+    private readonly windowId = crypto.randomUUID();
+    private readonly directory: string;
+    private readonly lockPath: string;
+    private readonly statePath: string;
+    private leader: boolean;
+    private timer: NodeJS.Timeout;
+    private pendingState: T | undefined;
+    private writing = false;
+    private lastStateTime = 0;
+    private disposed = false;
+    private readonly stateListener = () => this.readPublished();
+    private readonly roleEmitter = new vscode.EventEmitter<boolean>();
+    private readonly stateEmitter = new vscode.EventEmitter<T>();
+
+    /**
+     * Fires with true when this window became the leader, false when it stepped down.
+     */
+    readonly onDidChangeRole = this.roleEmitter.event;
+
+    /**
+     * Fires in follower windows with every state the leader publishes.
+     */
+    readonly onDidReceiveState = this.stateEmitter.event;
+
+    constructor(storageUri: vscode.Uri) {
+        this.directory = storageUri.fsPath;
+        this.lockPath = path.join(this.directory, 'leader.lock');
+        this.statePath = path.join(this.directory, 'shared-state.json');
+
+        try {
+            fs.mkdirSync(this.directory, { recursive: true });
+        } catch (error) {
+            console.warn('Failed to create the window lock directory:', error);
+        }
+        this.leader = this.tryAcquire();
+        this.timer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL);
+        fs.watchFile(this.statePath, { interval: STATE_POLL_INTERVAL }, this.stateListener);
+    }
+
+    /**
+     * Whether this window fetches and streams data for all windows.
+     */
+    isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * The state last published by a leader, if any, e.g. to start from before the next
+     * update arrives.
+     */
+    readState(): T | undefined {
+        try {
+            const file = JSON.parse(fs.readFileSync(this.statePath, 'utf8')) as StateFile<T>;
+            if (file.version === 1 && file.windowId !== this.windowId) {
+                this.lastStateTime = file.time;
+                return file.state;
+            }
+        } catch {
+            // Nothing published yet
+        }
+        return undefined;
+    }
+
+    /**
+     * Hand state to the follower windows. Ignored unless this window leads. While a write
+     * is in progress, only the latest state is kept and written afterwards.
+     */
+    publish(state: T) {
+        if (!this.leader || this.disposed) {
+            return;
+        }
+        this.pendingState = state;
+        if (!this.writing) {
+            this.writePending();
+        }
+    }
+
+    private async writePending() {
+        this.writing = true;
+        try {
+            while (this.pendingState !== undefined && this.leader) {
+                const file: StateFile<T> = {
+                    version: 1,
+                    windowId: this.windowId,
+                    time: Date.now(),
+                    state: this.pendingState,
+                };
+                this.pendingState = undefined;
+
+                // Write beside the file and rename, so readers never see half of it
+                const temporary = `${this.statePath}.${this.windowId}.tmp`;
+                await fs.promises.writeFile(temporary, JSON.stringify(file), 'utf8');
+                await fs.promises.rename(temporary, this.statePath);
+            }
+        } catch (error) {
+            console.warn('Failed to publish state to other windows:', error);
+        } finally {
+            this.writing = false;
+        }
+    }
+
+    private async readPublished() {
+        if (this.leader || this.disposed) {
+            return;
+        }
+        try {
+            const content = await fs.promises.readFile(this.statePath, 'utf8');
+            const file = JSON.parse(content) as StateFile<T>;
+            if (
+                file.version !== 1 ||
+                file.windowId === this.windowId ||
+                file.time <= this.lastStateTime
+            ) {
+                return;
+            }
+            this.lastStateTime = file.time;
+            this.stateEmitter.fire(file.state);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.warn('Failed to read state shared by another window:', error);
+            }
+        }
+    }
+
+    /**
+     * Ask the leader for data it only loads while some window needs it, e.g. open orders
+     * while a view shows them. Renew the request at least every 90 seconds to keep it.
+     *
+     * @param topic - Name of the data; part of a file name
+     */
+    requestData(topic: string) {
+        try {
+            fs.writeFileSync(this.getRequestPath(topic), this.windowId, 'utf8');
+        } catch (error) {
+            console.warn(`Failed to request ${topic} from the leader window:`, error);
+        }
+    }
+
+    /**
+     * Whether another window asked for data within the last 90 seconds, see `requestData`.
+     */
+    isDataRequested(topic: string): boolean {
+        try {
+            return Date.now() - fs.statSync(this.getRequestPath(topic)).mtimeMs < REQUEST_TIMEOUT;
+        } catch {
+            return false;
+        }
+    }
+
+    private getRequestPath(topic: string): string {
+        return path.join(this.directory, `request-${topic}`);
+    }
+
+    private readLock(): LockFile | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(this.lockPath, 'utf8')) as LockFile;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * @param exclusive - Only create the lock; fail with `EEXIST` when it exists
+     */
+    private writeLock(exclusive: boolean) {
+        const lock: LockFile = { windowId: this.windowId, pid: process.pid, heartbeat: Date.now() };
+        if (exclusive) {
+            fs.writeFileSync(this.lockPath, JSON.stringify(lock), { encoding: 'utf8', flag: 'wx' });
+            return;
+        }
+        // Replace rather than rewrite, so other windows never read a truncated lock
+        const temporary = `${this.lockPath}.${this.windowId}.tmp`;
+        fs.writeFileSync(temporary, JSON.stringify(lock), 'utf8');
+        fs.renameSync(temporary, this.lockPath);
+    }
+
+    /**
+     * Whether the lock's owner is gone. A lock that cannot be parsed (e.g. while it is
+     * being created) is judged by its age.
+     */
+    private isLockStale(lock: LockFile | undefined): boolean {
+        if (lock) {
+            return Date.now() - lock.heartbeat > LOCK_TIMEOUT || !isProcessAlive(lock.pid);
+        }
+        try {
+            return Date.now() - fs.statSync(this.lockPath).mtimeMs > LOCK_TIMEOUT;
+        } catch {
+            // Removed in the meantime
+            return true;
+        }
+    }
+
+    /**
+     * Create the lock, replacing it when its owner is gone.
+     */
+    private tryAcquire(): boolean {
+        try {
+            this.writeLock(true);
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                // Without a usable lock every window works on its own, as before
+                console.warn('Failed to create the window lock:', error);
+                return true;
+            }
+        }
+
+        if (!this.isLockStale(this.readLock())) {
+            return false;
+        }
+
+        try {
+            fs.unlinkSync(this.lockPath);
+            this.writeLock(true);
+            return true;
+        } catch {
+            // Another window took over first
+            return false;
+        }
+    }
+
+    private heartbeat() {
+        if (!this.leader) {
+            if (this.tryAcquire()) {
+                this.setLeader(true);
+            }
+            return;
+        }
+
+        const lock = this.readLock();
+        if (lock && lock.windowId !== this.windowId) {
+            // Another window declared this one gone, e.g. after a long pause
+            this.setLeader(false);
+            return;
+        }
+        try {
+            this.writeLock(false);
+        } catch (error) {
+            console.warn('Failed to renew the window lock:', error);
+        }
+    }
+
+    private setLeader(leader: boolean) {
+        this.leader = leader;
+        this.roleEmitter.fire(leader);
+    }
+
+    /**
+     * Stop coordinating and release the lock, so another window takes over right away.
+     */
+    dispose() {
+        this.disposed = true;
+        clearInterval(this.timer);
+        fs.unwatchFile(this.statePath, this.stateListener);
+        if (this.leader && this.readLock()?.windowId === this.windowId) {
+            try {
+                fs.unlinkSync(this.lockPath);
+            } catch {
+                // Already gone
+            }
+        }
+        this.roleEmitter.dispose();
+        this.stateEmitter.dispose();
+    }
+}
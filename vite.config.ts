@@ -1,4 +1,5 @@
 import { defineConfig } from 'vite';
+import { builtinModules } from 'module';
 import { resolve } from 'path';
 
 export default defineConfig({
@@ -7,11 +8,12 @@ export default defineConfig({
         // Target Node.js environment for VSCode extension
         target: 'node18',
 
-        // Library mode for extension
+        // Library mode for the extension and the `binance-balance` CLI
         lib: {
-            entry: resolve(__dirname, 'src/extension.ts'),
-            name: 'extension',
-            fileName: 'extension',
+            entry: {
+                extension: resolve(__dirname, 'src/extension.ts'),
+                cli: resolve(__dirname, 'src/cli.ts'),
+            },
             formats: ['cjs'],
         },
 
@@ -21,12 +23,25 @@ export default defineConfig({
         // Rollup options for VSCode extension
         rollupOptions: {
             // External dependencies that should not be bundled
-            external: ['vscode', 'crypto', 'fs', 'path', 'url', 'http', 'https', 'os', 'util'],
+            external: [
+                'vscode',
+                // Optional native add-ons of `ws`; it falls back to JavaScript without them
+                'bufferutil',
+                'utf-8-validate',
+                ...builtinModules,
+                ...builtinModules.map((module) => `node:${module}`),
+            ],
 
             output: {
                 // CommonJS format for VSCode
                 format: 'cjs',
-                entryFileNames: 'extension.js',
+                entryFileNames: '[name].js',
+                // Code shared by both entries, e.g. the API client in `core.js`
+                chunkFileNames: '[name].js',
+                manualChunks: (id) =>
+                    id.includes('/src/core/') || id.includes('/node_modules/') ? 'core' : undefined,
+                // The CLI is run directly as `binance-balance`
+                banner: (chunk) => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
             },
         },
 
@@ -46,6 +61,14 @@ export default defineConfig({
     // Resolve configuration
     resolve: {
         extensions: ['.ts', '.js'],
+        // Bundle the Node builds of dependencies such as `ws`, not their browser stubs
+        browserField: false,
+        conditions: ['node'],
+        mainFields: ['module', 'jsnext:main', 'jsnext'],
+        alias: {
+            // `import * as WebSocket from 'ws'` needs the CommonJS entry, not the ESM wrapper
+            ws: resolve(__dirname, 'node_modules/ws/index.js'),
+        },
     },
 
     // Define environment variables